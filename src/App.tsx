@@ -1,25 +1,54 @@
 import { useEffect, useState, useCallback, useMemo } from "react";
 import "./App.css";
 import {
-  client,
   useConfig,
   useEditorPanelConfig,
   useActionTrigger,
   useVariable,
-  useElementData,
+  usePaginatedElementData,
   useElementColumns,
+  useElementData,
+  usePlugin,
 } from "@sigmacomputing/plugin";
 import ChatInterface from "./components/ChatInterface";
-import { ChatMessage } from "./types/chat.types";
+import ContrastWarning from "./components/ContrastWarning";
+import VisibilityNotice from "./components/VisibilityNotice";
+import HistoryOrderNotice from "./components/HistoryOrderNotice";
+import SetupPreview from "./components/SetupPreview";
+import { ChatMessage, FeedbackRating, RevealMode, SendState } from "./types/chat.types";
+import { useThreads } from "./hooks/useThreads";
+import { usePendingMessages } from "./hooks/usePendingMessages";
+import { useControlSync } from "./hooks/useControlSync";
+import { useOlderHistory } from "./hooks/useOlderHistory";
+import { usePrefersDarkScheme } from "./hooks/usePrefersDarkScheme";
+import { getVariableValue } from "./utils/sigma";
+import { createSenderClassifier, parseList, parsePatterns } from "./utils/senderClassifier";
+import { detectHistoryOrder, resolveTimeFormat } from "./utils/timestamps";
+import { transformChatData } from "./utils/transformMessages";
+import { countHiddenMessages, createVisibilityCheck } from "./utils/visibility";
+import { buildStarterPrompts } from "./utils/suggestions";
+import { ColumnMapping, MappableColumnKey, findColumnTypeIssues, inferColumnMapping } from "./utils/columnMapping";
+import { REVEAL_MODES } from "./utils/reveal";
+import { THEME_PRESET_NAMES, adjustTextContrast, findContrastIssues, resolveColorConfig } from "./utils/themes";
+
+// How long the Clear Chat Action gets to remove the rows before they reappear
+const CLEAR_CHAT_TIMEOUT_MS = 15000;
+
+// How long a rating may take to show up in the Feedback Rating Column
+const FEEDBACK_CONFIRM_TIMEOUT_MS = 15000;
+
+// A rating given in this session, until the feedback column catches up
+interface LocalFeedback {
+  rating: FeedbackRating;
+  sentAt: number;
+}
 
-// Define the structure of our chat data from Sigma - matching your CSV structure
-interface SigmaChatData {
-  Author?: string[];
-  Message?: string[];
-  Timestamp?: string[];
-  email?: string[];
-  RLS?: boolean[];
-  ID?: string[];
+// Raised when the prompt control doesn't report the new value in time
+class PromptHandoffError extends Error {
+  constructor() {
+    super('The prompt could not be handed to the workbook. Please check the Prompt Control and try again.');
+    this.name = 'PromptHandoffError';
+  }
 }
 
 function App() {
@@ -32,6 +61,19 @@ function App() {
     { name: "timestampColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Timestamp Column" },
     { name: "idColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "ID Column" },
     { name: "emailColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Email Column (Optional)" },
+    { name: "sessionColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Session/Thread ID Column (Optional)" },
+    
+    // Per-message metadata written by the action chain
+    { name: "modelColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Model Column (Optional)" },
+    { name: "latencyColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Latency (ms) Column (Optional)" },
+    { name: "inputTokensColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Input Tokens Column (Optional)" },
+    { name: "outputTokensColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Output Tokens Column (Optional)" },
+    { name: "sourcesColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Sources Column (Optional, JSON list)" },
+    { name: "feedbackColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Feedback Rating Column (Optional)" },
+    { name: "roleColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Role Column (Optional - assistant/user)" },
+    { name: "visibilityColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Visibility Column (Optional - RLS true/false or allowed emails)" },
+    { name: "suggestionsColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Suggestions Column (Optional, JSON list or one per line)" },
+    { name: "completedColumn", type: "column", source: "chatDataSource", allowMultiple: false, label: "Status/Completed Column (Optional - answer is in progress while false/generating)" },
     
     // Variable/Control configuration
     { 
@@ -40,6 +82,18 @@ function App() {
       label: "Prompt Control (c_prompt-1)",
       allowedTypes: ["text"]
     },
+    {
+      name: "sessionControl",
+      type: "variable",
+      label: "Session ID Control (Optional - set on New Conversation)",
+      allowedTypes: ["text"]
+    },
+    {
+      name: "viewerEmailVariable",
+      type: "variable",
+      label: "Viewer Email Control or User Attribute (Optional - overrides Current User Email)",
+      allowedTypes: ["text"]
+    },
     
     // Action trigger for the existing action chain
     {
@@ -47,148 +101,318 @@ function App() {
       name: "sendMessageAction",
       label: "Send Message Action (Your Action Chain)",
     },
+    {
+      type: "action-trigger",
+      name: "clearChatAction",
+      label: "Clear Chat Action (Optional - archive or delete rows)",
+    },
+    
+    // Answer feedback: controls are set first, then the feedback action fires
+    { name: "feedbackMessageIdControl", type: "variable", label: "Feedback Message ID Control (Optional)", allowedTypes: ["text"] },
+    { name: "feedbackRatingControl", type: "variable", label: "Feedback Rating Control (Optional)", allowedTypes: ["text"] },
+    { name: "feedbackCommentControl", type: "variable", label: "Feedback Comment Control (Optional)", allowedTypes: ["text"] },
+    {
+      type: "action-trigger",
+      name: "feedbackAction",
+      label: "Feedback Action (Optional - record ratings)",
+    },
     
     // UI Configuration
     { name: "placeholder", type: "text", defaultValue: "Type your message...", label: "Input Placeholder" },
     { name: "showUserEmail", type: "checkbox", defaultValue: false, label: "Show User Email" },
+    { name: "showSearch", type: "checkbox", defaultValue: true, label: "Show Search" },
+    { name: "showExport", type: "checkbox", defaultValue: true, label: "Show Export Menu" },
+    { name: "starterPrompts", type: "text", multiline: true, defaultValue: "", label: "Starter Prompts (one per line, optional)" },
+    { name: "starterPromptsSource", type: "element", label: "Starter Prompts Table (Optional)" },
+    { name: "starterPromptsColumn", type: "column", source: "starterPromptsSource", allowMultiple: false, label: "Starter Prompt Column" },
+    { name: "exportTitle", type: "text", defaultValue: "Chat History", label: "Export Title (workbook element name)" },
+    { name: "responseTimeoutSeconds", type: "text", defaultValue: "120", label: "Response Timeout (seconds, 0 = never)" },
+    { name: "maxPromptLength", type: "text", defaultValue: "4000", label: "Max Prompt Length (characters, 0 = unlimited)" },
+    { name: "promptSyncTimeoutMs", type: "text", defaultValue: "3000", label: "Prompt Sync Timeout (ms)" },
+    { name: "revealMode", type: "dropdown", values: REVEAL_MODES, defaultValue: "Typewriter", label: "Reply Reveal Animation" },
+    { name: "revealSpeed", type: "text", defaultValue: "1", label: "Reveal Speed (multiplier, 2 = twice as fast)" },
     
-    // Color Configuration (Simplified)
+    // Timestamp configuration
+    { name: "timeFormat", type: "dropdown", values: ["12-hour", "24-hour", "Custom"], defaultValue: "12-hour", label: "Time Format" },
+    { name: "customTimeFormat", type: "text", defaultValue: "h:mm a", label: "Custom Time Format (date-fns pattern)" },
+    { name: "sourceTimeZone", type: "text", defaultValue: "", placeholder: "e.g. UTC", label: "Timestamp Source Time Zone (for values without offset)" },
+    { name: "displayTimeZone", type: "text", defaultValue: "", placeholder: "e.g. America/New_York", label: "Display Time Zone (blank = browser)" },
+    { name: "sortOrder", type: "dropdown", values: ["Timestamp, then ID", "ID", "Table order"], defaultValue: "Timestamp, then ID", label: "Message Order" },
+    
+    // Color configuration - a theme preset plus optional per-color overrides
     { name: "colorSection", type: "group", label: "Color Settings" },
-    { name: "backgroundColor", source: "colorSection", type: "text", defaultValue: "#F2F2F7", label: "Background Color (hex)" },
-    { name: "userBubbleColor", source: "colorSection", type: "text", defaultValue: "#007AFF", label: "User Bubble Color (hex)" },
-    { name: "userTextColor", source: "colorSection", type: "text", defaultValue: "#FFFFFF", label: "User Text Color (hex)" },
-    { name: "assistantBubbleColor", source: "colorSection", type: "text", defaultValue: "#E9E9EB", label: "Assistant Bubble Color (hex)" },
-    { name: "assistantTextColor", source: "colorSection", type: "text", defaultValue: "#000000", label: "Assistant Text Color (hex)" },
-    { name: "buttonBackgroundColor", source: "colorSection", type: "text", defaultValue: "#3B82F6", label: "Send Button Color (hex)" },
-    { name: "buttonTextColor", source: "colorSection", type: "text", defaultValue: "#FFFFFF", label: "Send Button Text Color (hex)" },
-    { name: "inputTextColor", source: "colorSection", type: "text", defaultValue: "#1F2937", label: "Input Text Color (hex)" },
-    { name: "placeholderTextColor", source: "colorSection", type: "text", defaultValue: "#9CA3AF", label: "Placeholder Text Color (hex)" },
+    { name: "themePreset", source: "colorSection", type: "dropdown", values: THEME_PRESET_NAMES, defaultValue: "iMessage", label: "Theme (Auto follows light/dark mode)" },
+    { name: "backgroundColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Background Color" },
+    { name: "userBubbleColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "User Bubble Color" },
+    { name: "userTextColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "User Text Color" },
+    { name: "assistantBubbleColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Assistant Bubble Color" },
+    { name: "assistantTextColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Assistant Text Color" },
+    { name: "headerBackgroundColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Header Background Color" },
+    { name: "headerTextColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Header Text Color" },
+    { name: "inputBackgroundColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Input Background Color" },
+    { name: "inputTextColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Input Text Color" },
+    { name: "placeholderTextColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Placeholder Text Color" },
+    { name: "buttonBackgroundColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Send Button Color" },
+    { name: "buttonTextColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Send Button Text Color" },
+    { name: "timestampColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Timestamp Color" },
+    { name: "dayStampBackgroundColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Day Stamp Background Color" },
+    { name: "dayStampTextColor", source: "colorSection", type: "text", defaultValue: "", placeholder: "Theme default", label: "Day Stamp Text Color" },
+    { name: "autoAdjustContrast", source: "colorSection", type: "checkbox", defaultValue: false, label: "Auto-adjust Text Contrast (WCAG AA)" },
     
     // Author detection configuration
-    { name: "assistantIdentifiers", type: "text", defaultValue: "assistant,ai,bot,agent", label: "Assistant Identifiers (comma-separated)" },
+    { name: "assistantIdentifiers", type: "text", defaultValue: "assistant,ai,bot,agent", label: "Assistant Names (comma-separated, exact match)" },
+    { name: "assistantPatterns", type: "text", multiline: true, defaultValue: "", label: "Assistant Regex Rules (one per line, optional)" },
+    { name: "assistantRoleValues", type: "text", defaultValue: "assistant,system,ai,bot,agent", label: "Assistant Role Values (used with Role Column)" },
     { name: "currentUserEmail", type: "text", defaultValue: "", label: "Current User Email (Optional)" },
   ]);
 
   const config = useConfig();
   
   // Get chat data from Sigma
-  const chatData = useElementData(config.chatDataSource) as SigmaChatData;
+  const [chatData, fetchMoreChatData] = usePaginatedElementData(config.chatDataSource);
   const chatColumns = useElementColumns(config.chatDataSource);
+
+  // Chat columns left blank in the editor panel are inferred from column names and types
+  const inferredColumns = useMemo(() => inferColumnMapping(chatColumns), [chatColumns]);
+  const columnMapping = useMemo<ColumnMapping>(() => ({
+    authorColumn: config.authorColumn || inferredColumns.authorColumn,
+    messageColumn: config.messageColumn || inferredColumns.messageColumn,
+    timestampColumn: config.timestampColumn || inferredColumns.timestampColumn,
+    idColumn: config.idColumn || inferredColumns.idColumn,
+    emailColumn: config.emailColumn || inferredColumns.emailColumn,
+  }), [
+    config.authorColumn,
+    config.messageColumn,
+    config.timestampColumn,
+    config.idColumn,
+    config.emailColumn,
+    inferredColumns,
+  ]);
+  const { authorColumn, messageColumn, timestampColumn, idColumn, emailColumn } = columnMapping;
+  const columnTypeIssues = useMemo(
+    () => findColumnTypeIssues(chatColumns, columnMapping),
+    [chatColumns, columnMapping]
+  );
+  const starterPromptsData = useElementData(config.starterPromptsSource);
   
   // Get the prompt control variable setter
-  const [promptValue, setPromptValue] = useVariable(config.promptControl);
+  const [promptVariable, setPromptVariable] = useVariable(config.promptControl);
+  const { setAndConfirm: setPromptAndConfirm } = useControlSync(
+    promptVariable,
+    setPromptVariable as (value: string) => void
+  );
+  
+  // Session control that the action chain stamps onto new rows
+  const [sessionVariable, setSessionVariable] = useVariable(config.sessionControl);
+  
+  // Who is looking at the workbook - an email control or user attribute
+  const [viewerEmailVariable] = useVariable(config.viewerEmailVariable);
   
   // Action trigger
   const triggerSendMessage = useActionTrigger(config.sendMessageAction);
+  const triggerClearChat = useActionTrigger(config.clearChatAction);
+  const triggerFeedback = useActionTrigger(config.feedbackAction);
+  
+  // Feedback controls
+  const [feedbackIdVariable, setFeedbackIdVariable] = useVariable(config.feedbackMessageIdControl);
+  const [feedbackRatingVariable, setFeedbackRatingVariable] = useVariable(config.feedbackRatingControl);
+  const [feedbackCommentVariable, setFeedbackCommentVariable] = useVariable(config.feedbackCommentControl);
+  const { setAndConfirm: setFeedbackIdAndConfirm } = useControlSync(
+    feedbackIdVariable,
+    setFeedbackIdVariable as (value: string) => void
+  );
+  const { setAndConfirm: setFeedbackRatingAndConfirm } = useControlSync(
+    feedbackRatingVariable,
+    setFeedbackRatingVariable as (value: string) => void
+  );
+  const { setAndConfirm: setFeedbackCommentAndConfirm } = useControlSync(
+    feedbackCommentVariable,
+    setFeedbackCommentVariable as (value: string) => void
+  );
   
   // UI configuration
   const placeholder = config.placeholder || "Type your message...";
+  const starterPrompts = useMemo(
+    () => buildStarterPrompts(
+      config.starterPrompts,
+      config.starterPromptsColumn ? starterPromptsData?.[config.starterPromptsColumn] : undefined
+    ),
+    [config.starterPrompts, config.starterPromptsColumn, starterPromptsData]
+  );
   const showUserEmail = config.showUserEmail === true;
+  const responseTimeoutMs = useMemo(() => {
+    const seconds = parseFloat(config.responseTimeoutSeconds || "120");
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+  }, [config.responseTimeoutSeconds]);
+  const maxPromptLength = useMemo(() => {
+    const length = parseInt(config.maxPromptLength || "4000", 10);
+    return Number.isFinite(length) && length > 0 ? length : 0;
+  }, [config.maxPromptLength]);
+  const promptSyncTimeoutMs = useMemo(() => {
+    const timeout = parseInt(config.promptSyncTimeoutMs || "3000", 10);
+    return Number.isFinite(timeout) && timeout > 0 ? timeout : 3000;
+  }, [config.promptSyncTimeoutMs]);
+  const revealMode: RevealMode = REVEAL_MODES.includes(config.revealMode) ? config.revealMode : "Typewriter";
+  const revealSpeed = useMemo(() => {
+    const speed = parseFloat(config.revealSpeed || "1");
+    return Number.isFinite(speed) && speed > 0 ? speed : 1;
+  }, [config.revealSpeed]);
+  const timeFormat = useMemo(
+    () => resolveTimeFormat(config.timeFormat, config.customTimeFormat),
+    [config.timeFormat, config.customTimeFormat]
+  );
   
-  // Color configuration with validation
+  // Color configuration: theme preset with validated per-color overrides
+  // (hex, rgb(), hsl() or a color name) from the editor panel
+  const prefersDarkScheme = usePrefersDarkScheme();
   const colorConfig = useMemo(() => {
-    const validateHexColor = (color: string | undefined, defaultColor: string): string => {
-      if (!color) return defaultColor;
-      // Check if it's a valid hex color
-      const hexRegex = /^#([0-9A-Fa-f]{3}){1,2}$/;
-      return hexRegex.test(color) ? color : defaultColor;
-    };
-    
-    return {
-      backgroundColor: validateHexColor(config.backgroundColor, "#F2F2F7"),
-      userBubbleColor: validateHexColor(config.userBubbleColor, "#007AFF"),
-      userTextColor: validateHexColor(config.userTextColor, "#FFFFFF"),
-      assistantBubbleColor: validateHexColor(config.assistantBubbleColor, "#E9E9EB"),
-      assistantTextColor: validateHexColor(config.assistantTextColor, "#000000"),
-      buttonBackgroundColor: validateHexColor(config.buttonBackgroundColor, "#3B82F6"),
-      buttonTextColor: validateHexColor(config.buttonTextColor, "#FFFFFF"),
-      inputTextColor: validateHexColor(config.inputTextColor, "#1F2937"),
-      placeholderTextColor: validateHexColor(config.placeholderTextColor, "#9CA3AF"),
-      // Fixed colors that don't need configuration
-      headerBackgroundColor: "#FFFFFF",
-      headerTextColor: "#1F2937",
-      inputBackgroundColor: "#F3F4F6", // This will be overridden to use backgroundColor
-      timestampColor: "#6B7280",
-      dayStampBackgroundColor: "#F3F4F6",
-      dayStampTextColor: "#6B7280",
-    };
-  }, [config]);
+    const themeColors = resolveColorConfig(config.themePreset, config, prefersDarkScheme);
+    return config.autoAdjustContrast ? adjustTextContrast(themeColors) : themeColors;
+  }, [config, prefersDarkScheme]);
   
-  // Author detection configuration - memoize to prevent recreating on every render
-  const assistantIdentifiers = useMemo(() => 
-    (config.assistantIdentifiers || "assistant,ai,bot,agent")
-      .split(',')
-      .map(id => id.trim().toLowerCase())
-      .filter(id => id.length > 0),
-    [config.assistantIdentifiers]
+  // Authors get told about unreadable color pairs while editing
+  const plugin = usePlugin();
+  const { sigmaEnv } = plugin;
+  const contrastIssues = useMemo(
+    () => (sigmaEnv === 'author' ? findContrastIssues(colorConfig) : []),
+    [sigmaEnv, colorConfig]
   );
-  const currentUserEmail = config.currentUserEmail || "";
+  
+  // The viewer's identity drives both "you" in the thread and row visibility
+  const currentUserEmail = getVariableValue(viewerEmailVariable) || config.currentUserEmail || "";
+  const isVisibleToViewer = useMemo(() => createVisibilityCheck(currentUserEmail), [currentUserEmail]);
+  
+  // Editors see how many rows the visibility column hides for this viewer
+  const hiddenMessageCount = useMemo(() => {
+    if (sigmaEnv !== 'author' || !chatData || !messageColumn || !config.visibilityColumn) return 0;
+    return countHiddenMessages(
+      chatData[messageColumn] ?? [],
+      chatData[config.visibilityColumn] ?? [],
+      isVisibleToViewer
+    );
+  }, [sigmaEnv, chatData, messageColumn, config.visibilityColumn, isVisibleToViewer]);
+  
+  // Author detection - memoize so the transform only reruns when settings change
+  const classifySender = useMemo(() => createSenderClassifier({
+    assistantNames: parseList(config.assistantIdentifiers || "assistant,ai,bot,agent"),
+    assistantPatterns: parsePatterns(config.assistantPatterns),
+    assistantRoles: parseList(config.assistantRoleValues || "assistant,system,ai,bot,agent"),
+    currentUserEmail,
+  }), [config.assistantIdentifiers, config.assistantPatterns, config.assistantRoleValues, currentUserEmail]);
   
   // Local state for messages
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [sendState, setSendState] = useState<SendState>({ phase: 'idle' });
+  const isLoading = sendState.phase === 'syncing' || sendState.phase === 'triggering';
+  // When this plugin last triggered the send action, and in which thread
+  const [lastSent, setLastSent] = useState<{ at: Date; threadId?: string } | undefined>(undefined);
+  // Echo whose prompt is still in the prompt control, waiting for its row
+  const [promptToClearId, setPromptToClearId] = useState<string | null>(null);
+  // Messages hidden optimistically by Clear Chat until Sigma re-queries
+  const [clearedMessageIds, setClearedMessageIds] = useState<Set<string>>(() => new Set());
+  // Rows hidden by the latest Clear Chat, until they leave the data or time out
+  const [pendingClear, setPendingClear] = useState<{ ids: Set<string>; startedAt: number } | null>(null);
+  const [clearError, setClearError] = useState<string | null>(null);
+  // Ratings given in this session, shown until the feedback column catches up
+  const [localFeedback, setLocalFeedback] = useState<Record<string, LocalFeedback>>({});
+  
+  // Conversation threading, driven by the optional Session/Thread ID column
+  const setSessionValue = useCallback((sessionId: string) => {
+    if (config.sessionControl && setSessionVariable) {
+      setSessionVariable(sessionId);
+    }
+  }, [config.sessionControl, setSessionVariable]);
+  
+  const {
+    threads,
+    activeThreadId,
+    threadMessages,
+    selectThread,
+    startNewThread,
+  } = useThreads({
+    messages,
+    enabled: Boolean(config.sessionColumn),
+    storageKey: `sigma-chat-plugin:last-seen:${config.chatDataSource ?? ''}`,
+    sessionValue: getVariableValue(sessionVariable),
+    setSessionValue,
+  });
+  
+  // Local echoes of sent messages until their rows arrive from Sigma
+  const {
+    pendingMessages,
+    addPendingMessage,
+    setPendingStatus,
+    removePendingMessage,
+  } = usePendingMessages(messages, currentUserEmail);
+  
+  // Older history is fetched page by page as the viewer scrolls up. Sigma pages
+  // in the element's sort order, so a table sorted oldest first has the latest
+  // messages on its last page - then every page is loaded up front instead.
+  const historyRowCount = (messageColumn && chatData?.[messageColumn]?.length) || 0;
+  const historyOrder = useMemo(
+    () => (chatData && timestampColumn
+      ? detectHistoryOrder(chatData[timestampColumn] ?? [], config.sourceTimeZone)
+      : 'unknown'),
+    [chatData, timestampColumn, config.sourceTimeZone]
+  );
+  const isHistoryAscending = historyOrder === 'ascending';
+  const { hasOlder, isLoadingOlder, loadOlder } = useOlderHistory(
+    historyRowCount,
+    fetchMoreChatData,
+    isHistoryAscending
+  );
   
   // Transform Sigma data to our chat message format
   useEffect(() => {
-    if (!chatData || !config.messageColumn || !config.authorColumn) {
+    if (!chatData || !messageColumn || !authorColumn) {
       return;
     }
     
-    const messageCol = config.messageColumn;
-    const authorCol = config.authorColumn;
-    const timestampCol = config.timestampColumn;
-    const idCol = config.idColumn;
-    const emailCol = config.emailColumn;
-    
-    const messageArray = chatData[messageCol] || [];
-    const authorArray = chatData[authorCol] || [];
-    const timestampArray = timestampCol ? (chatData[timestampCol] || []) : [];
-    const idArray = idCol ? (chatData[idCol] || []) : [];
-    const emailArray = emailCol ? (chatData[emailCol] || []) : [];
-    
-    // Transform the data into ChatMessage format
-    const transformedMessages: ChatMessage[] = messageArray
-      .map((message, index) => {
-        if (!message) return null;
-        
-        const author = String(authorArray[index] || '').toLowerCase();
-        const email = emailArray[index] ? String(emailArray[index]) : undefined;
-        
-        // Check if this is an assistant message
-        const isAssistant = assistantIdentifiers.some(identifier => 
-          author.includes(identifier)
-        );
-        
-        // If we have a current user email configured, check if the author matches
-        const isCurrentUser = currentUserEmail && (
-          author === currentUserEmail.toLowerCase() ||
-          author.includes(currentUserEmail.split('@')[0].toLowerCase()) ||
-          (email && email.toLowerCase() === currentUserEmail.toLowerCase())
-        );
-        
-        // Determine sender: if it's identified as assistant, it's assistant; otherwise it's user
-        const sender = isAssistant ? 'assistant' : 'user';
-        
-        return {
-          id: idArray[index] ? String(idArray[index]) : `msg-${index}`,
-          content: String(message),
-          sender: sender,
-          timestamp: timestampArray[index] ? new Date(timestampArray[index]) : new Date(),
-          email: email,
-        };
-      })
-      .filter((msg): msg is ChatMessage => msg !== null);
-    
-    setMessages(transformedMessages);
+    setMessages(transformChatData(chatData, {
+      message: messageColumn,
+      author: authorColumn,
+      timestamp: timestampColumn,
+      id: idColumn,
+      email: emailColumn,
+      session: config.sessionColumn,
+      role: config.roleColumn,
+      model: config.modelColumn,
+      latency: config.latencyColumn,
+      inputTokens: config.inputTokensColumn,
+      outputTokens: config.outputTokensColumn,
+      sources: config.sourcesColumn,
+      feedback: config.feedbackColumn,
+      visibility: config.visibilityColumn,
+      suggestions: config.suggestionsColumn,
+      completed: config.completedColumn,
+    }, {
+      classifySender,
+      sourceTimeZone: config.sourceTimeZone,
+      sortOrder: config.sortOrder || "Timestamp, then ID",
+      isVisible: isVisibleToViewer,
+    }));
   }, [
     chatData, 
-    config.messageColumn, 
-    config.authorColumn, 
-    config.timestampColumn, 
-    config.idColumn, 
-    config.emailColumn,
-    config.assistantIdentifiers,
-    config.currentUserEmail
+    messageColumn, 
+    authorColumn, 
+    timestampColumn, 
+    idColumn, 
+    emailColumn,
+    config.sessionColumn,
+    config.modelColumn,
+    config.latencyColumn,
+    config.inputTokensColumn,
+    config.outputTokensColumn,
+    config.sourcesColumn,
+    config.feedbackColumn,
+    config.roleColumn,
+    config.visibilityColumn,
+    config.suggestionsColumn,
+    config.completedColumn,
+    config.sourceTimeZone,
+    config.sortOrder,
+    classifySender,
+    isVisibleToViewer,
   ]);
   
   // Handle sending a message
@@ -197,46 +421,210 @@ function App() {
       return;
     }
     
-    setIsLoading(true);
+    // Show the message right away; it is reconciled once Sigma re-queries
+    const pendingMessage = addPendingMessage(message, activeThreadId);
     
     try {
-      // Update the prompt control with the message
-      if (config.promptControl && setPromptValue) {
-        setPromptValue(message);
-        
-        // Small delay to ensure the control is updated
-        await new Promise(resolve => setTimeout(resolve, 100));
+      // Update the prompt control and wait until the workbook reports the new
+      // value, so the action chain never reads an empty or stale prompt
+      if (config.promptControl) {
+        setSendState({ phase: 'syncing' });
+        const confirmed = await setPromptAndConfirm(message, promptSyncTimeoutMs);
+        if (!confirmed) {
+          throw new PromptHandoffError();
+        }
       }
       
       // Trigger the action chain
       // The action will read from the control we just updated
+      setSendState({ phase: 'triggering' });
       await triggerSendMessage();
+      setLastSent({ at: new Date(), threadId: activeThreadId });
+      setPendingStatus(pendingMessage.id, 'sent');
+      setSendState({ phase: 'idle' });
       
-      // Clear the prompt control after a short delay
-      if (config.promptControl && setPromptValue) {
-        setTimeout(() => {
-          setPromptValue("");
-        }, 200);
-      }
+      // The action chain reads the control on its own schedule, so it is
+      // cleared once the prompt's row has landed (see below)
+      setPromptToClearId(pendingMessage.id);
       
     } catch (error) {
       console.error('Error sending message:', error);
       
-      // Show error in chat
-      const errorMessage: ChatMessage = {
-        id: `error-${Date.now()}`,
-        content: 'Sorry, there was an error sending your message. Please make sure the Prompt Control is configured.',
-        sender: 'assistant',
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
+      // The bubble offers Retry / Delete for failed messages
+      setPendingStatus(pendingMessage.id, 'failed');
+      setSendState({
+        phase: 'failed',
+        error: error instanceof PromptHandoffError
+          ? error.message
+          : 'Sorry, there was an error sending your message. Please check the Send Message Action.',
+      });
     }
-  }, [triggerSendMessage, config.promptControl, setPromptValue]);
+  }, [triggerSendMessage, config.promptControl, setPromptAndConfirm, promptSyncTimeoutMs, activeThreadId, addPendingMessage, setPendingStatus]);
+  
+  // Clear the prompt control only after the sent prompt shows up in the
+  // history table - by then the action chain has read it
+  useEffect(() => {
+    if (promptToClearId === null || pendingMessages.some(message => message.id === promptToClearId)) return;
+    setPromptToClearId(null);
+    if (config.promptControl) {
+      setPromptAndConfirm("", promptSyncTimeoutMs);
+    }
+  }, [promptToClearId, pendingMessages, config.promptControl, setPromptAndConfirm, promptSyncTimeoutMs]);
+  
+  // Retry a failed message by sending it again as a fresh echo
+  const handleRetryMessage = useCallback(async (messageId: string) => {
+    const failedMessage = pendingMessages.find(message => message.id === messageId);
+    if (!failedMessage) return;
+    
+    removePendingMessage(messageId);
+    await handleSendMessage(failedMessage.content);
+  }, [pendingMessages, removePendingMessage, handleSendMessage]);
+  
+  // Handle thumbs up / down feedback, using the same control-then-trigger
+  // hand-off as sending a message
+  const handleFeedback = useCallback(async (messageId: string, rating: FeedbackRating, comment?: string) => {
+    const previousRating = localFeedback[messageId];
+    setLocalFeedback(prev => ({ ...prev, [messageId]: { rating, sentAt: Date.now() } }));
+    
+    try {
+      const confirmations = await Promise.all([
+        config.feedbackMessageIdControl ? setFeedbackIdAndConfirm(messageId, promptSyncTimeoutMs) : true,
+        config.feedbackRatingControl ? setFeedbackRatingAndConfirm(rating, promptSyncTimeoutMs) : true,
+        config.feedbackCommentControl ? setFeedbackCommentAndConfirm(comment ?? "", promptSyncTimeoutMs) : true,
+      ]);
+      if (confirmations.includes(false)) {
+        throw new Error('Feedback controls did not update in time');
+      }
+      
+      await triggerFeedback();
+    } catch (error) {
+      console.error('Error sending feedback:', error);
+      
+      // The controls never took the rating, so the action can't record it.
+      // A failed action is caught when the feedback column doesn't follow.
+      setLocalFeedback(prev => {
+        const next = { ...prev };
+        if (previousRating) {
+          next[messageId] = previousRating;
+        } else {
+          delete next[messageId];
+        }
+        return next;
+      });
+    }
+  }, [
+    localFeedback,
+    config.feedbackMessageIdControl,
+    config.feedbackRatingControl,
+    config.feedbackCommentControl,
+    setFeedbackIdAndConfirm,
+    setFeedbackRatingAndConfirm,
+    setFeedbackCommentAndConfirm,
+    promptSyncTimeoutMs,
+    triggerFeedback,
+  ]);
+  
+  // Local ratings give way to the feedback column: dropped once it shows them,
+  // rolled back if it still doesn't after FEEDBACK_CONFIRM_TIMEOUT_MS
+  useEffect(() => {
+    if (!config.feedbackColumn) return;
+    
+    const storedRatings = new Map(messages.map(message => [message.id, message.feedback]));
+    const landedIds = Object.keys(localFeedback)
+      .filter(id => storedRatings.get(id) === localFeedback[id].rating);
+    if (landedIds.length > 0) {
+      setLocalFeedback(prev => {
+        const next = { ...prev };
+        landedIds.forEach(id => delete next[id]);
+        return next;
+      });
+      return;
+    }
+    
+    const sentTimes = Object.values(localFeedback).map(local => local.sentAt);
+    if (sentTimes.length === 0) return;
+    
+    const timeout = setTimeout(() => {
+      const expiredBefore = Date.now() - FEEDBACK_CONFIRM_TIMEOUT_MS;
+      setLocalFeedback(prev => Object.fromEntries(
+        Object.entries(prev).filter(([, local]) => local.sentAt > expiredBefore)
+      ));
+    }, Math.max(0, Math.min(...sentTimes) + FEEDBACK_CONFIRM_TIMEOUT_MS - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [config.feedbackColumn, messages, localFeedback]);
+  
+  // Messages of the active thread, minus anything that was just cleared,
+  // followed by the viewer's messages that haven't been stored yet
+  const visibleMessages = useMemo(() => {
+    const storedMessages = threadMessages
+      .filter(message => !clearedMessageIds.has(message.id))
+      .map(message => localFeedback[message.id]
+        ? { ...message, feedback: localFeedback[message.id].rating }
+        : message);
+    const threadPendingMessages = config.sessionColumn
+      ? pendingMessages.filter(message => message.sessionId === activeThreadId)
+      : pendingMessages;
+    
+    return threadPendingMessages.length > 0
+      ? [...storedMessages, ...threadPendingMessages]
+      : storedMessages;
+  }, [threadMessages, clearedMessageIds, localFeedback, pendingMessages, config.sessionColumn, activeThreadId]);
+  
+  // Handle clearing the conversation. The action trigger doesn't report
+  // whether the chain worked, so hidden rows that are still in the data after
+  // CLEAR_CHAT_TIMEOUT_MS come back with an error.
+  const handleClearChat = useCallback(() => {
+    const ids = threadMessages.map(message => message.id);
+    
+    // Empty the chat right away; the action chain archives or deletes the rows
+    setClearedMessageIds(prev => new Set([...prev, ...ids]));
+    setPendingClear({ ids: new Set(ids), startedAt: Date.now() });
+    setClearError(null);
+    triggerClearChat();
+  }, [triggerClearChat, threadMessages]);
+  
+  useEffect(() => {
+    if (!pendingClear) return;
+    
+    const remainingIds = messages.filter(message => pendingClear.ids.has(message.id)).map(message => message.id);
+    if (remainingIds.length === 0) {
+      setPendingClear(null);
+      return;
+    }
+    
+    const timeout = setTimeout(() => {
+      console.error('Error clearing chat: rows are still present after the Clear Chat Action');
+      setClearedMessageIds(prev => {
+        const next = new Set(prev);
+        remainingIds.forEach(id => next.delete(id));
+        return next;
+      });
+      setPendingClear(null);
+      setClearError('Sorry, the conversation could not be cleared. Please check the Clear Chat Action.');
+    }, Math.max(0, pendingClear.startedAt + CLEAR_CHAT_TIMEOUT_MS - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [pendingClear, messages]);
+  
+  // Authors confirm guessed or mistyped columns against a few parsed messages first
+  const [isSetupPreviewDismissed, setIsSetupPreviewDismissed] = useState(false);
+  const inferredColumnKeys = useMemo(
+    () => (Object.keys(columnMapping) as MappableColumnKey[]).filter(key => !config[key] && inferredColumns[key]),
+    [columnMapping, config, inferredColumns]
+  );
+  const showSetupPreview = sigmaEnv === 'author' && !isSetupPreviewDismissed &&
+    (inferredColumnKeys.length > 0 || columnTypeIssues.length > 0);
+  
+  const handleApplyInferredColumns = useCallback(() => {
+    const inferred = Object.fromEntries(inferredColumnKeys.map(key => [key, inferredColumns[key]]));
+    try {
+      plugin.config.set(inferred);
+    } catch (error) {
+      console.error('Error saving inferred columns:', error);
+    }
+  }, [plugin, inferredColumnKeys, inferredColumns]);
   
   // Check if plugin is properly configured
-  const isConfigured = config.chatDataSource && config.messageColumn && config.authorColumn && config.promptControl && triggerSendMessage;
+  const isConfigured = config.chatDataSource && messageColumn && authorColumn && config.promptControl && triggerSendMessage;
   
   // Show configuration message if not properly set up
   if (!isConfigured) {
@@ -252,13 +640,13 @@ function App() {
                 <span><strong>Chat History Table:</strong> Select your "Chat History" table</span>
               </li>
             )}
-            {!config.authorColumn && (
+            {!authorColumn && (
               <li className="flex items-start">
                 <span className="text-red-500 mr-2">•</span>
                 <span><strong>Author Column:</strong> Select the "Author" column</span>
               </li>
             )}
-            {!config.messageColumn && (
+            {!messageColumn && (
               <li className="flex items-start">
                 <span className="text-red-500 mr-2">•</span>
                 <span><strong>Message Column:</strong> Select the "Message" column</span>
@@ -296,16 +684,57 @@ function App() {
   }
   
   return (
-    <div className="h-full w-full">
-      <ChatInterface
-        messages={messages}
-        onSendMessage={handleSendMessage}
-        onClearChat={undefined} // Removed clear chat for now
-        isLoading={isLoading}
-        placeholder={placeholder}
-        showUserEmail={showUserEmail}
-        colorConfig={colorConfig}
-      />
+    <div className="h-full w-full flex flex-col">
+      <ContrastWarning issues={contrastIssues} />
+      <VisibilityNotice hiddenCount={hiddenMessageCount} viewerEmail={currentUserEmail} />
+      {sigmaEnv === 'author' && isHistoryAscending && <HistoryOrderNotice />}
+      <div className="flex-1 min-h-0">
+        {showSetupPreview ? (
+          <SetupPreview
+            columns={chatColumns}
+            mapping={columnMapping}
+            inferredKeys={inferredColumnKeys}
+            issues={columnTypeIssues}
+            messages={messages}
+            onApply={inferredColumnKeys.length > 0 ? handleApplyInferredColumns : undefined}
+            onContinue={() => setIsSetupPreviewDismissed(true)}
+          />
+        ) : (
+        <ChatInterface
+          messages={visibleMessages}
+          onSendMessage={handleSendMessage}
+          onClearChat={config.clearChatAction ? handleClearChat : undefined}
+          clearError={clearError}
+          onDismissClearError={() => setClearError(null)}
+          onFeedback={config.feedbackAction ? handleFeedback : undefined}
+          onRetryMessage={handleRetryMessage}
+          onDeleteMessage={removePendingMessage}
+          responseTimeoutMs={responseTimeoutMs}
+          lastSentAt={lastSent && lastSent.threadId === activeThreadId ? lastSent.at : undefined}
+          maxPromptLength={maxPromptLength}
+          timeFormat={timeFormat}
+          displayTimeZone={config.displayTimeZone || undefined}
+          sendState={sendState}
+          isLoading={isLoading}
+          placeholder={placeholder}
+          showUserEmail={showUserEmail}
+          colorConfig={colorConfig}
+          threads={config.sessionColumn ? threads : undefined}
+          activeThreadId={activeThreadId}
+          onSelectThread={selectThread}
+          onNewThread={startNewThread}
+          onLoadOlder={loadOlder}
+          hasOlderMessages={hasOlder && !isHistoryAscending}
+          isLoadingOlder={isLoadingOlder && !isHistoryAscending}
+          showSearch={config.showSearch ?? true}
+          showExport={config.showExport ?? true}
+          revealMode={revealMode}
+          revealSpeed={revealSpeed}
+          starterPrompts={starterPrompts}
+          exportTitle={config.exportTitle || "Chat History"}
+        />
+        )}
+      </div>
     </div>
   );
 }
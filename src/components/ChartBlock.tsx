@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { ChartRow, ChartSpec, ColorConfig } from '../types/chat.types';
+import { parseChartSpec } from '../utils/chartSpec';
+import { getChartPalette, getReadableTextColor } from '../utils/colors';
+
+const CHART_HEIGHT = 220;
+const MARGIN = { top: 12, right: 12, bottom: 36, left: 48 };
+
+interface ChartBlockProps {
+  code: string;
+  colorConfig: ColorConfig;
+  // True while the typewriter is still revealing the message
+  isPartial?: boolean;
+}
+
+const ChartBlock: React.FC<ChartBlockProps> = ({ code, colorConfig, isPartial = false }) => {
+  const result = useMemo(() => parseChartSpec(code), [code]);
+
+  if (result.spec) {
+    return <D3Chart spec={result.spec} colorConfig={colorConfig} />;
+  }
+
+  // The JSON is most likely incomplete while it is still being revealed
+  if (isPartial) {
+    return (
+      <div className="chat-chart text-xs opacity-60" style={{ color: colorConfig.assistantTextColor }}>
+        Preparing chart...
+      </div>
+    );
+  }
+
+  return <ChartFallback error={result.error} rows={result.rows} code={code} />;
+};
+
+// D3 Chart Component
+interface D3ChartProps {
+  spec: ChartSpec;
+  colorConfig: ColorConfig;
+}
+
+const D3Chart: React.FC<D3ChartProps> = ({ spec, colorConfig }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [width, setWidth] = useState(0);
+
+  // Track the bubble width so the chart fills it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setWidth(container.clientWidth);
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!svgRef.current || width === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const rows = spec.data.filter(row => row[spec.y] !== null);
+    const label = (row: ChartRow) => String(row[spec.x] ?? '');
+    const value = (row: ChartRow) => row[spec.y] as number;
+    const textColor = colorConfig.assistantTextColor;
+    const palette = getChartPalette(colorConfig, spec.type === 'pie' ? rows.length : 1);
+
+    if (spec.type === 'pie') {
+      const radius = Math.min(width, CHART_HEIGHT) / 2 - 8;
+      const pie = d3.pie<ChartRow>().value(value).sort(null);
+      const arc = d3.arc<d3.PieArcDatum<ChartRow>>().innerRadius(0).outerRadius(radius);
+      const labelArc = d3.arc<d3.PieArcDatum<ChartRow>>().innerRadius(radius * 0.6).outerRadius(radius * 0.6);
+
+      const group = svg.append('g')
+        .attr('transform', `translate(${width / 2},${CHART_HEIGHT / 2})`);
+
+      const slices = group.selectAll('g')
+        .data(pie(rows))
+        .join('g');
+
+      slices.append('path')
+        .attr('d', arc)
+        .attr('fill', (_, i) => palette[i])
+        .attr('stroke', colorConfig.assistantBubbleColor)
+        .append('title')
+        .text(d => `${label(d.data)}: ${d3.format(',')(value(d.data))}`);
+
+      slices.filter(d => d.endAngle - d.startAngle > 0.3)
+        .append('text')
+        .attr('transform', d => `translate(${labelArc.centroid(d)})`)
+        .attr('text-anchor', 'middle')
+        .attr('font-size', 10)
+        .attr('fill', d => getReadableTextColor(palette[d.index % palette.length]))
+        .text(d => label(d.data));
+      return;
+    }
+
+    const innerWidth = width - MARGIN.left - MARGIN.right;
+    const innerHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+    const [minValue, maxValue] = d3.extent(rows, value) as [number, number];
+
+    const xScale = d3.scalePoint<string>()
+      .domain(rows.map(label))
+      .range([0, innerWidth])
+      .padding(0.5);
+    const bandScale = d3.scaleBand<string>()
+      .domain(rows.map(label))
+      .range([0, innerWidth])
+      .padding(0.2);
+    const yScale = d3.scaleLinear()
+      .domain([Math.min(0, minValue), Math.max(0, maxValue)])
+      .nice()
+      .range([innerHeight, 0]);
+
+    const group = svg.append('g')
+      .attr('transform', `translate(${MARGIN.left},${MARGIN.top})`);
+
+    const xAxis = group.append('g')
+      .attr('transform', `translate(0,${innerHeight})`)
+      .call(spec.type === 'bar' ? d3.axisBottom(bandScale) : d3.axisBottom(xScale));
+    const yAxis = group.append('g')
+      .call(d3.axisLeft(yScale).ticks(5).tickFormat(d3.format('~s')));
+
+    [xAxis, yAxis].forEach(axis => {
+      axis.selectAll('text').attr('fill', textColor);
+      axis.selectAll('line, path').attr('stroke', textColor).attr('stroke-opacity', 0.3);
+    });
+
+    if (spec.type === 'bar') {
+      group.selectAll('rect')
+        .data(rows)
+        .join('rect')
+        .attr('x', row => bandScale(label(row)) ?? 0)
+        .attr('y', row => yScale(Math.max(0, value(row))))
+        .attr('width', bandScale.bandwidth())
+        .attr('height', row => Math.abs(yScale(value(row)) - yScale(0)))
+        .attr('rx', 2)
+        .attr('fill', palette[0])
+        .append('title')
+        .text(row => `${label(row)}: ${d3.format(',')(value(row))}`);
+      return;
+    }
+
+    const line = d3.line<ChartRow>()
+      .x(row => xScale(label(row)) ?? 0)
+      .y(row => yScale(value(row)));
+
+    group.append('path')
+      .datum(rows)
+      .attr('fill', 'none')
+      .attr('stroke', palette[0])
+      .attr('stroke-width', 2)
+      .attr('d', line);
+
+    group.selectAll('circle')
+      .data(rows)
+      .join('circle')
+      .attr('cx', row => xScale(label(row)) ?? 0)
+      .attr('cy', row => yScale(value(row)))
+      .attr('r', 3)
+      .attr('fill', palette[0])
+      .append('title')
+      .text(row => `${label(row)}: ${d3.format(',')(value(row))}`);
+  }, [spec, colorConfig, width]);
+
+  return (
+    <div ref={containerRef} className="chat-chart">
+      {spec.title && (
+        <p className="text-sm font-semibold mb-1" style={{ color: colorConfig.assistantTextColor }}>
+          {spec.title}
+        </p>
+      )}
+      <svg
+        ref={svgRef}
+        width={width}
+        height={CHART_HEIGHT}
+        role="img"
+        aria-label={spec.title || `${spec.type} chart of ${spec.y} by ${spec.x}`}
+      />
+    </div>
+  );
+};
+
+// Chart Fallback Component - readable table when the spec can't be drawn
+interface ChartFallbackProps {
+  error: string;
+  rows?: ChartRow[];
+  code: string;
+}
+
+const ChartFallback: React.FC<ChartFallbackProps> = ({ error, rows, code }) => {
+  const columns = useMemo(
+    () => Array.from(new Set((rows ?? []).flatMap(row => Object.keys(row)))),
+    [rows]
+  );
+
+  return (
+    <div className="chat-chart chat-markdown">
+      <p className="text-xs opacity-60">Unable to draw chart: {error}</p>
+      {rows && rows.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table>
+            <thead>
+              <tr>
+                {columns.map(column => <th key={column}>{column}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index}>
+                  {columns.map(column => <td key={column}>{row[column] ?? ''}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="chat-code-block">
+          <pre>{code}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartBlock;
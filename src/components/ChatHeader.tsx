@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import { ChatThread, ColorConfig } from '../types/chat.types';
+import ThreadPicker from './ThreadPicker';
+import ExportMenu from './ExportMenu';
+import { ExportFormat } from '../utils/exportConversation';
+
+interface ChatHeaderProps {
+  colorConfig: ColorConfig;
+  threads?: ChatThread[];
+  activeThreadId?: string;
+  // Time format and zone for thread times, as used for message times
+  timeFormat?: string;
+  displayTimeZone?: string;
+  onSelectThread?: (threadId: string) => void;
+  onNewThread?: () => void | Promise<void>;
+  onClearChat?: () => void | Promise<void>;
+  // Nothing to clear in an empty conversation
+  canClear?: boolean;
+  onToggleSearch?: () => void;
+  isSearchOpen?: boolean;
+  onExport?: (exportFormat: ExportFormat) => void;
+  // Nothing to export when no messages are shown
+  canExport?: boolean;
+}
+
+const ChatHeader: React.FC<ChatHeaderProps> = ({
+  colorConfig,
+  threads,
+  activeThreadId,
+  timeFormat,
+  displayTimeZone,
+  onSelectThread,
+  onNewThread,
+  onClearChat,
+  canClear = true,
+  onToggleSearch,
+  isSearchOpen = false,
+  onExport,
+  canExport = true,
+}) => {
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+
+  const handleConfirmClear = async () => {
+    setIsConfirmingClear(false);
+    await onClearChat?.();
+  };
+
+  return (
+    <div
+      className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-200"
+      style={{
+        backgroundColor: colorConfig.headerBackgroundColor,
+        color: colorConfig.headerTextColor,
+      }}
+    >
+      {threads && onSelectThread ? (
+        <ThreadPicker
+          threads={threads}
+          activeThreadId={activeThreadId}
+          onSelectThread={onSelectThread}
+          onNewThread={onNewThread}
+          colorConfig={colorConfig}
+          timeFormat={timeFormat}
+          displayTimeZone={displayTimeZone}
+        />
+      ) : (
+        <span />
+      )}
+
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {onToggleSearch && !isConfirmingClear && (
+          <button
+            type="button"
+            onClick={onToggleSearch}
+            className={clsx("p-1 rounded hover:bg-black/5", isSearchOpen && "bg-black/5")}
+            aria-label="Search conversation"
+            aria-pressed={isSearchOpen}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M11 19a8 8 0 100-16 8 8 0 000 16z" />
+            </svg>
+          </button>
+        )}
+
+        {onExport && !isConfirmingClear && (
+          <ExportMenu onExport={onExport} disabled={!canExport} colorConfig={colorConfig} />
+        )}
+
+        {onClearChat && (
+          isConfirmingClear ? (
+            <div className="flex items-center gap-2 text-sm flex-shrink-0">
+              <span>Clear this conversation?</span>
+              <button
+                type="button"
+                onClick={() => setIsConfirmingClear(false)}
+                className="px-2 py-0.5 rounded hover:bg-black/5"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmClear}
+                className="px-2 py-0.5 rounded font-medium hover:opacity-90"
+                style={{
+                  backgroundColor: colorConfig.buttonBackgroundColor,
+                  color: colorConfig.buttonTextColor,
+                }}
+              >
+                Clear
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setIsConfirmingClear(true)}
+              disabled={!canClear}
+              className={clsx(
+                "px-2 py-0.5 rounded text-sm flex-shrink-0 hover:bg-black/5",
+                "disabled:opacity-50 disabled:cursor-not-allowed"
+              )}
+            >
+              Clear
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatHeader;
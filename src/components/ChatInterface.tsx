@@ -1,43 +1,91 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ChatInterfaceProps, ChatMessage, ColorConfig } from '../types/chat.types';
-import { format, isToday, isYesterday, isWithinInterval, subDays, isSameDay, isSameYear } from 'date-fns';
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo, useCallback } from 'react';
+import { ChatInterfaceProps, ChatMessage, ColorConfig, FeedbackRating, RevealMode } from '../types/chat.types';
+import { format, isWithinInterval, subDays, isSameDay, isSameYear } from 'date-fns';
 import clsx from 'clsx';
+import MarkdownContent from './MarkdownContent';
+import ChatHeader from './ChatHeader';
+import ConversationSearch from './ConversationSearch';
+import MessageDetails from './MessageDetails';
+import FeedbackActions from './FeedbackActions';
+import SuggestionChips from './SuggestionChips';
+import { getAuthorColor, getReadableTextColor } from '../utils/colors';
+import { toZonedTime } from '../utils/timestamps';
+import { THEME_PRESETS } from '../utils/themes';
+import { useResponseTimeout } from '../hooks/useResponseTimeout';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { useConversationSearch } from '../hooks/useConversationSearch';
+import { useMediaQuery } from '../hooks/useMediaQuery';
+import { HIGHLIGHT_CLASS_NAME, splitHighlights } from '../utils/highlight';
+import { describeFilters } from '../utils/search';
+import { ExportFormat, exportConversation } from '../utils/exportConversation';
+import { toPlainText } from '../utils/markdown';
+import { useReveal } from '../hooks/useReveal';
 
 // Default color configuration
-const DEFAULT_COLORS: ColorConfig = {
-  backgroundColor: '#F2F2F7',
-  userBubbleColor: '#007AFF',
-  userTextColor: '#FFFFFF',
-  assistantBubbleColor: '#E9E9EB',
-  assistantTextColor: '#000000',
-  headerBackgroundColor: '#FFFFFF',
-  headerTextColor: '#1F2937',
-  inputBackgroundColor: '#F3F4F6',
-  inputTextColor: '#1F2937',
-  placeholderTextColor: '#9CA3AF',
-  buttonBackgroundColor: '#3B82F6',
-  buttonTextColor: '#FFFFFF',
-  timestampColor: '#6B7280',
-  dayStampBackgroundColor: '#F3F4F6',
-  dayStampTextColor: '#6B7280',
-};
+const DEFAULT_COLORS: ColorConfig = THEME_PRESETS.iMessage;
+
+// Height guess for a message row that hasn't been measured yet
+const ESTIMATED_ROW_HEIGHT = 72;
+
+// Start fetching older history this many pixels before the top
+const LOAD_OLDER_THRESHOLD = 200;
+
+// Screen readers only need the latest few replies in the live region
+const MAX_ANNOUNCEMENTS = 5;
+
+interface Announcement {
+  id: string;
+  text: string;
+}
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   messages,
   onSendMessage,
   onClearChat,
+  onRetryMessage,
+  onDeleteMessage,
   isLoading = false,
   placeholder = 'Type your message...',
   showUserEmail = false,
   colorConfig = DEFAULT_COLORS,
+  threads,
+  activeThreadId,
+  onSelectThread,
+  onNewThread,
+  responseTimeoutMs = 0,
+  lastSentAt,
+  maxPromptLength = 0,
+  sendState,
+  clearError,
+  onDismissClearError,
+  onFeedback,
+  timeFormat = 'h:mm a',
+  displayTimeZone,
+  onLoadOlder,
+  hasOlderMessages = false,
+  isLoadingOlder = false,
+  showSearch = true,
+  showExport = true,
+  exportTitle = 'Chat History',
+  revealMode = 'Typewriter',
+  revealSpeed = 1,
+  starterPrompts = [],
 }) => {
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const messagesContentRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
   const [userScrolled, setUserScrolled] = useState(false);
-  const lastMessageCountRef = useRef(messages.length);
-  const previousMessagesRef = useRef<ChatMessage[]>([]);
+  const userScrolledRef = useRef(false);
+  const lastScrollTopRef = useRef(0);
+  // scrollHeight - scrollTop at the last scroll event, used to hold position when history is prepended
+  const distanceFromBottomRef = useRef(0);
+  const previousThreadIdRef = useRef<string | undefined>(activeThreadId);
+  const previousFirstMessageIdRef = useRef<string | undefined>(undefined);
+  // Rows that have been rendered before; remounts (after scrolling away) skip entrance animations
+  const renderedIdsRef = useRef<Set<string>>(new Set());
+  const prefersReducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)');
   
   // Track which messages are new based on timestamp
   // A message is "new" if it was created within the last 30 seconds
@@ -52,8 +100,146 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   
   // Determine if we should show the loading indicator
   // Show it only when the last message is from the user (waiting for ROBOT response)
-  const shouldShowLoading = messages.length > 0 && 
-    messages[messages.length - 1].sender === 'user';
+  // and give up once the response timeout passes so the input unlocks again
+  const lastMessage = messages.length > 0 ? messages[messages.length - 1] : undefined;
+  const {
+    isWaiting,
+    isTimedOut,
+    isDismissed,
+    dismiss: dismissTimeout,
+  } = useResponseTimeout({ lastMessage, lastSentAt, timeoutMs: responseTimeoutMs });
+  // An answer the action chain is still writing counts as waiting, too
+  const isGenerating = lastMessage?.sender === 'assistant' && Boolean(lastMessage.isGenerating);
+  const shouldShowLoading = isWaiting && !isTimedOut;
+  
+  // Search and sender/date filters; the list shows only messages that pass the filters
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const {
+    query: searchQuery,
+    setQuery: setSearchQuery,
+    filters: searchFilters,
+    setFilters: setSearchFilters,
+    filteredMessages: displayedMessages,
+    matches: searchMatches,
+    activeMatch,
+    goToPreviousMatch,
+    goToNextMatch,
+    reset: resetSearch,
+  } = useConversationSearch(messages, displayTimeZone);
+  const highlightQuery = isSearchOpen ? searchQuery.trim() : '';
+  const activeMatchIndex = activeMatch >= 0 ? searchMatches[activeMatch] : undefined;
+  const activeMatchId = activeMatchIndex !== undefined ? displayedMessages[activeMatchIndex]?.id : undefined;
+  
+  const [exportError, setExportError] = useState<string | null>(null);
+  
+  // Export what is on screen - the active thread, narrowed by any filters
+  const handleExport = (exportFormat: ExportFormat) => {
+    setExportError(null);
+    try {
+      exportConversation(displayedMessages, exportFormat, {
+        header: {
+          title: exportTitle,
+          exportedAt: new Date(),
+          filterSummary: describeFilters(searchFilters),
+        },
+        formatDateTime: (date: Date) => format(toZonedTime(date, displayTimeZone), `yyyy-MM-dd ${timeFormat}`),
+      });
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      setExportError('The export could not be created. Your browser may be blocking downloads or printing here.');
+    }
+  };
+  
+  const toggleSearch = () => {
+    if (isSearchOpen) resetSearch();
+    setIsSearchOpen(open => !open);
+  };
+  
+  // Only the rows near the viewport are rendered
+  const messageIds = useMemo(() => displayedMessages.map(message => message.id), [displayedMessages]);
+  const {
+    startIndex,
+    endIndex,
+    paddingTop,
+    paddingBottom,
+    measureRow,
+    scrollToIndex,
+  } = useVirtualList({
+    keys: messageIds,
+    scrollRef: messagesContainerRef,
+    estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+  });
+  const visibleMessages = displayedMessages.slice(startIndex, endIndex);
+  
+  // Only a fresh reply at the bottom gets the typewriter, and never under reduced motion
+  const latestDisplayed = displayedMessages[displayedMessages.length - 1];
+  const animatedMessageId = latestDisplayed &&
+    latestDisplayed.sender === 'assistant' &&
+    endIndex === displayedMessages.length &&
+    !renderedIdsRef.current.has(latestDisplayed.id) &&
+    !latestDisplayed.timestampUnknown &&
+    isMessageNew(latestDisplayed.timestamp) &&
+    revealMode !== 'Instant' &&
+    !prefersReducedMotion
+    ? latestDisplayed.id
+    : undefined;
+  
+  useEffect(() => {
+    visibleMessages.forEach(message => renderedIdsRef.current.add(message.id));
+  });
+  
+  // Screen reader announcements of finished assistant replies. Messages that
+  // were already there when the conversation loaded are never announced, and
+  // a reply being typed out is announced once the typewriter finishes.
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const announcedIdsRef = useRef<Set<string> | null>(null);
+  const announcedThreadIdRef = useRef<string | undefined>(activeThreadId);
+  const revealingIdsRef = useRef<Set<string>>(new Set());
+  
+  const announceReply = useCallback((message: ChatMessage) => {
+    const announced = announcedIdsRef.current;
+    revealingIdsRef.current.delete(message.id);
+    // Partial answers are announced once the row is final
+    if (!announced || announced.has(message.id) || message.isGenerating) return;
+    announced.add(message.id);
+    
+    const author = message.authorName || 'Assistant';
+    setAnnouncements(previous => [
+      ...previous,
+      { id: message.id, text: `${author}: ${toPlainText(message.content)}` },
+    ].slice(-MAX_ANNOUNCEMENTS));
+  }, []);
+  
+  useEffect(() => {
+    if (announcedIdsRef.current === null || announcedThreadIdRef.current !== activeThreadId) {
+      // Wait for the history to arrive before taking the snapshot
+      if (messages.length === 0) return;
+      announcedIdsRef.current = new Set(messages.map(message => message.id));
+      announcedThreadIdRef.current = activeThreadId;
+      setAnnouncements([]);
+      return;
+    }
+    
+    if (animatedMessageId) revealingIdsRef.current.add(animatedMessageId);
+    
+    const latest = messages[messages.length - 1];
+    if (latest?.sender !== 'assistant' || latest.isGenerating || revealingIdsRef.current.has(latest.id)) return;
+    announceReply(latest);
+  }, [messages, activeThreadId, animatedMessageId, announceReply]);
+  
+  // Send the unanswered prompt again - for a stalled answer, the prompt before it
+  const handleRetryResponse = () => {
+    const prompt = isGenerating
+      ? [...messages].reverse().find(message => message.sender === 'user')
+      : lastMessage;
+    if (!prompt) return;
+    setUserScrolled(false);
+    if (prompt.status && onRetryMessage) {
+      onRetryMessage(prompt.id);
+    } else {
+      onSendMessage(prompt.content);
+    }
+  };
   
   // Handle scroll events to detect if user has scrolled up
   const handleScroll = () => {
@@ -61,65 +247,171 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     
     const { scrollTop, scrollHeight, clientHeight } = messagesContainerRef.current;
     const isAtBottom = Math.abs(scrollHeight - clientHeight - scrollTop) < 10;
+    // Programmatic scrolls only ever move down, so only an upward move unpins the view
+    const movedUp = scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = scrollTop;
+    distanceFromBottomRef.current = scrollHeight - scrollTop;
     
-    setUserScrolled(!isAtBottom);
+    if (isAtBottom) {
+      setUserScrolled(false);
+    } else if (movedUp) {
+      setUserScrolled(true);
+    }
+    
+    // Fetch older history before the viewer actually hits the top
+    if (scrollTop < LOAD_OLDER_THRESHOLD && hasOlderMessages && !isLoadingOlder) {
+      onLoadOlder?.();
+    }
   };
   
-  // Auto-scroll to bottom when new messages arrive and user hasn't scrolled up
+  useLayoutEffect(() => {
+    userScrolledRef.current = userScrolled;
+  }, [userScrolled]);
+  
+  // Keep the newest message in view while the viewer is at the bottom. Watching
+  // the content size covers new rows, the loading indicator and rows whose
+  // measured height differs from the estimate.
   useEffect(() => {
-    // Only scroll if we have new messages and user hasn't scrolled
-    if (messages.length > lastMessageCountRef.current && !userScrolled) {
-      // Small delay to ensure DOM is updated
-      setTimeout(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-      }, 50);
+    const container = messagesContainerRef.current;
+    const content = messagesContentRef.current;
+    if (!container || !content) return;
+    
+    const observer = new ResizeObserver(() => {
+      if (!userScrolledRef.current) {
+        container.scrollTo({ top: container.scrollHeight, behavior: 'instant' });
+      }
+    });
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, []);
+  
+  // Detect when the conversation changes (session switch) or older history is
+  // prepended. With threading enabled the active thread id identifies the
+  // conversation; otherwise a conversation is replaced when its first message
+  // disappears, which happens when the history table is swapped out.
+  const firstMessageId = displayedMessages[0]?.id;
+  
+  useLayoutEffect(() => {
+    const previousThreadId = previousThreadIdRef.current;
+    const previousFirstMessageId = previousFirstMessageIdRef.current;
+    previousThreadIdRef.current = activeThreadId;
+    previousFirstMessageIdRef.current = firstMessageId;
+    
+    const container = messagesContainerRef.current;
+    if (!container || previousFirstMessageId === undefined) return;
+    if (previousThreadId === activeThreadId && previousFirstMessageId === firstMessageId) return;
+    
+    const isSameConversation = previousThreadId === activeThreadId &&
+      displayedMessages.some(message => message.id === previousFirstMessageId);
+    
+    if (isSameConversation) {
+      // Older rows were added above - keep the rows the viewer was reading in place
+      container.scrollTo({ top: container.scrollHeight - distanceFromBottomRef.current, behavior: 'instant' });
+      return;
     }
-    lastMessageCountRef.current = messages.length;
-  }, [messages.length, userScrolled]);
+    
+    // Reset scroll state for new conversation and jump straight to the latest message
+    setUserScrolled(false);
+    container.scrollTo({ top: container.scrollHeight, behavior: 'instant' });
+  }, [activeThreadId, firstMessageId, displayedMessages]);
   
-  // Detect when conversation changes (session switch)
+  // Bring the selected search result into view
   useEffect(() => {
-    // Check if this is a completely different conversation
-    const hasConversationChanged = () => {
-      // If we had messages before and now we have different ones
-      if (previousMessagesRef.current.length > 0 && messages.length > 0) {
-        // Check if the first message ID is different (indicates new conversation)
-        const prevFirstId = previousMessagesRef.current[0]?.id;
-        const currentFirstId = messages[0]?.id;
-        
-        // Also check if multiple IDs have changed (not just additions)
-        const prevIds = previousMessagesRef.current.map(m => m.id).join(',');
-        const currentIds = messages.map(m => m.id).join(',');
-        
-        // If first message is different or the ID sequence has changed significantly
-        return prevFirstId !== currentFirstId || 
-               (prevIds && currentIds && !currentIds.startsWith(prevIds.substring(0, Math.min(prevIds.length, 50))));
-      }
-      return false;
-    };
+    if (activeMatchId === undefined || activeMatchIndex === undefined) return;
+    // Stop following new messages so the result stays put
+    userScrolledRef.current = true;
+    setUserScrolled(true);
+    scrollToIndex(activeMatchIndex);
+  }, [activeMatchId, activeMatchIndex, scrollToIndex]);
+  
+  // Keyboard navigation between messages. Only one message is in the tab
+  // order at a time; the arrow keys, Home and End move focus through the list.
+  const [focusedMessageId, setFocusedMessageId] = useState<string | undefined>(undefined);
+  const [pendingFocusId, setPendingFocusId] = useState<string | undefined>(undefined);
+  const tabStopId = focusedMessageId !== undefined && messageIds.includes(focusedMessageId)
+    ? focusedMessageId
+    : latestDisplayed?.id;
+  
+  const findMessageElement = (messageId: string) =>
+    Array.from(messagesContentRef.current?.querySelectorAll<HTMLElement>('[data-message-id]') ?? [])
+      .find(element => element.dataset.messageId === messageId);
+  
+  const focusMessage = (index: number) => {
+    const messageId = displayedMessages[index]?.id;
+    if (messageId === undefined) return;
+    setFocusedMessageId(messageId);
     
-    if (hasConversationChanged()) {
-      // Reset scroll state for new conversation
-      setUserScrolled(false);
-      // Scroll to bottom immediately for new conversation
-      setTimeout(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'auto', block: 'end' });
-      }, 50);
+    const element = findMessageElement(messageId);
+    if (element) {
+      element.focus();
+      return;
     }
+    // The row is virtualized away - bring it in, then focus it once rendered
+    userScrolledRef.current = true;
+    setUserScrolled(true);
+    setPendingFocusId(messageId);
+    scrollToIndex(index);
+  };
+  
+  useEffect(() => {
+    if (pendingFocusId === undefined) return;
+    const element = findMessageElement(pendingFocusId);
+    if (element) {
+      element.focus({ preventScroll: true });
+      setPendingFocusId(undefined);
+    }
+  });
+  
+  const handleMessagesKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Leave keys alone inside buttons, comment boxes and other controls
+    const target = e.target as HTMLElement;
+    const messageId = target.dataset.messageId;
+    if (messageId === undefined) return;
     
-    // Update the reference for next comparison
-    previousMessagesRef.current = [...messages];
-  }, [messages]);
+    const index = displayedMessages.findIndex(message => message.id === messageId);
+    switch (e.key) {
+      case 'ArrowUp':
+        focusMessage(Math.max(0, index - 1));
+        break;
+      case 'ArrowDown':
+        focusMessage(Math.min(displayedMessages.length - 1, index + 1));
+        break;
+      case 'Home':
+        focusMessage(0);
+        break;
+      case 'End':
+        focusMessage(displayedMessages.length - 1);
+        break;
+      case 'Escape':
+        inputRef.current?.focus();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
   
   // Focus input on mount
   useEffect(() => {
     inputRef.current?.focus();
   }, []);
   
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Sigma text controls silently truncate long values, so block them here instead
+  const isOverLimit = maxPromptLength > 0 && inputValue.trim().length > maxPromptLength;
+  const canSend = inputValue.trim().length > 0 && !isOverLimit && !isLoading && !shouldShowLoading;
+  
+  // Grow the composer with its content, up to the max height set in CSS
+  useEffect(() => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [inputValue]);
+  
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
     
-    if (!inputValue.trim() || isLoading || shouldShowLoading) return;
+    if (!canSend) return;
     
     const message = inputValue.trim();
     setInputValue('');
@@ -133,28 +425,49 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     inputRef.current?.focus();
   };
   
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    // Submit on Enter (but not Shift+Enter for potential multi-line support)
-    if (e.key === 'Enter' && !e.shiftKey) {
+  // Starter and follow-up chips send their text as is; one over the prompt
+  // limit goes into the composer instead, so the viewer can shorten it
+  const handleSendSuggestion = async (suggestion: string) => {
+    if (isLoading || shouldShowLoading) return;
+    if (maxPromptLength > 0 && suggestion.trim().length > maxPromptLength) {
+      setInputValue(suggestion);
+      inputRef.current?.focus();
+      return;
+    }
+    setUserScrolled(false);
+    await onSendMessage(suggestion);
+    inputRef.current?.focus();
+  };
+  
+  // Follow-ups belong to the newest answer and go away once the user replies
+  const followUpMessageId = lastMessage?.sender === 'assistant' && lastMessage.suggestions?.length
+    ? lastMessage.id
+    : undefined;
+  
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Submit on Enter; Shift+Enter inserts a newline. Ignore Enter while an
+    // IME composition is still open.
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
       e.preventDefault();
-      handleSubmit(e as any);
+      handleSubmit();
     }
   };
   
   const formatTimestamp = (date: Date) => {
-    return format(date, 'h:mm a'); // Using 12-hour format with AM/PM
+    return format(toZonedTime(date, displayTimeZone), timeFormat);
   };
   
   // Function to generate the day stamp label
   const getDayStamp = (date: Date): string => {
-    const messageDate = new Date(date);
-    const now = new Date();
+    // Compare calendar days in the display time zone
+    const messageDate = toZonedTime(date, displayTimeZone);
+    const now = toZonedTime(new Date(), displayTimeZone);
     
-    if (isToday(messageDate)) {
+    if (isSameDay(messageDate, now)) {
       return 'Today';
     }
     
-    if (isYesterday(messageDate)) {
+    if (isSameDay(messageDate, subDays(now, 1))) {
       return 'Yesterday';
     }
     
@@ -172,6 +485,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
   
+  // Several humans in one conversation - render avatars, names and author colors
+  const isGroupChat = useMemo(
+    () => messages.some(message => message.sender === 'other'),
+    [messages]
+  );
+  
+  // Consecutive messages from the same author are grouped together
+  const isSameAuthor = (a: ChatMessage, b: ChatMessage): boolean =>
+    a.sender === b.sender && (a.authorId ?? a.sender) === (b.authorId ?? b.sender);
+  
   // Function to determine if we should show a day stamp before this message
   const shouldShowDayStamp = (currentMessage: ChatMessage, previousMessage: ChatMessage | null): boolean => {
     if (!previousMessage) {
@@ -179,73 +502,195 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       return true;
     }
     
-    const currentDate = new Date(currentMessage.timestamp);
-    const previousDate = new Date(previousMessage.timestamp);
+    const currentDate = toZonedTime(currentMessage.timestamp, displayTimeZone);
+    const previousDate = toZonedTime(previousMessage.timestamp, displayTimeZone);
     
     // Show day stamp if the messages are on different days
     return !isSameDay(currentDate, previousDate);
   };
   
   return (
-    <div className="chat-container" style={{ backgroundColor: colorConfig.backgroundColor }}>
+    <div
+      className="chat-container"
+      style={{
+        backgroundColor: colorConfig.backgroundColor,
+        // Native controls (date pickers, scrollbars) follow the theme
+        colorScheme: getReadableTextColor(colorConfig.backgroundColor) === '#FFFFFF' ? 'dark' : 'light',
+      }}
+    >
+      {(threads || onClearChat || showSearch || showExport) && (
+        <ChatHeader
+          colorConfig={colorConfig}
+          threads={threads}
+          activeThreadId={activeThreadId}
+          timeFormat={timeFormat}
+          displayTimeZone={displayTimeZone}
+          onSelectThread={onSelectThread}
+          onNewThread={onNewThread}
+          onClearChat={onClearChat}
+          canClear={messages.length > 0}
+          onToggleSearch={showSearch ? toggleSearch : undefined}
+          isSearchOpen={isSearchOpen}
+          onExport={showExport ? handleExport : undefined}
+          canExport={displayedMessages.length > 0}
+        />
+      )}
+      
+      {clearError && (
+        <div className="flex items-center justify-between gap-2 px-4 py-2 text-xs bg-red-50 text-red-600" role="alert">
+          <span>{clearError}</span>
+          {onDismissClearError && (
+            <button type="button" onClick={onDismissClearError} className="font-medium underline hover:opacity-80">
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+      
+      {exportError && (
+        <div className="flex items-center justify-between gap-2 px-4 py-2 text-xs bg-red-50 text-red-600" role="alert">
+          <span>{exportError}</span>
+          <button type="button" onClick={() => setExportError(null)} className="font-medium underline hover:opacity-80">
+            Dismiss
+          </button>
+        </div>
+      )}
+      
+      {isSearchOpen && (
+        <ConversationSearch
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          filters={searchFilters}
+          onFiltersChange={setSearchFilters}
+          matchCount={searchMatches.length}
+          activeMatch={activeMatch}
+          onPrevious={goToPreviousMatch}
+          onNext={goToNextMatch}
+          onClose={toggleSearch}
+          colorConfig={colorConfig}
+        />
+      )}
+      
       {/* Messages Area */}
       <div 
         ref={messagesContainerRef}
         className="chat-messages"
         onScroll={handleScroll}
       >
-        {messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full text-gray-400">
-            <p>Start a conversation...</p>
-          </div>
-        ) : (
-          <>
-            {messages.map((message, index) => {
-              const previousMessage = index > 0 ? messages[index - 1] : null;
-              const showDayStamp = shouldShowDayStamp(message, previousMessage);
-              
-              return (
-                <React.Fragment key={message.id}>
-                  {showDayStamp && (
-                    <DayStamp 
-                      date={message.timestamp} 
-                      getDayStamp={getDayStamp}
-                      formatTimestamp={formatTimestamp}
-                      colorConfig={colorConfig}
-                    />
-                  )}
-                  <AnimatedMessageBubble
-                    message={message}
-                    showUserEmail={showUserEmail}
-                    formatTimestamp={formatTimestamp}
-                    shouldAnimate={
-                      message.sender === 'assistant' && 
-                      index === messages.length - 1 &&
-                      isMessageNew(message.timestamp)
-                    }
-                    colorConfig={colorConfig}
-                  />
-                </React.Fragment>
-              );
-            })}
-            {shouldShowLoading && <LoadingIndicator />}
-          </>
-        )}
+        <div ref={messagesContentRef} className={clsx("space-y-3", displayedMessages.length === 0 && "h-full")}>
+          {displayedMessages.length === 0 ? (
+            <div
+              className="flex flex-col items-center justify-center gap-4 h-full"
+              style={{ color: colorConfig.timestampColor }}
+            >
+              <p>{messages.length === 0 ? 'Start a conversation...' : 'No messages match the filters'}</p>
+              {messages.length === 0 && (
+                <SuggestionChips
+                  suggestions={starterPrompts}
+                  onSelect={handleSendSuggestion}
+                  disabled={isLoading || shouldShowLoading}
+                  colorConfig={colorConfig}
+                  label="Suggested prompts"
+                  className="justify-center max-w-md"
+                />
+              )}
+            </div>
+          ) : (
+            <>
+              {onLoadOlder && (isLoadingOlder || hasOlderMessages) && (
+                <OlderMessagesLoader
+                  isLoading={isLoadingOlder}
+                  onLoad={onLoadOlder}
+                  colorConfig={colorConfig}
+                />
+              )}
+              <div
+                role="feed"
+                aria-label="Conversation"
+                aria-busy={isLoadingOlder}
+                onKeyDown={handleMessagesKeyDown}
+                style={{ paddingTop, paddingBottom }}
+              >
+                {visibleMessages.map((message, visibleIndex) => {
+                  const index = startIndex + visibleIndex;
+                  const previousMessage = index > 0 ? displayedMessages[index - 1] : null;
+                  const showDayStamp = shouldShowDayStamp(message, previousMessage);
+                  const isGroupStart = showDayStamp || !previousMessage || !isSameAuthor(message, previousMessage);
+                  const isRevisit = renderedIdsRef.current.has(message.id);
+                  
+                  return (
+                    <div key={message.id} ref={measureRow(message.id)} className="flow-root">
+                      {showDayStamp && (
+                        <DayStamp 
+                          date={message.timestamp} 
+                          getDayStamp={getDayStamp}
+                          formatTimestamp={formatTimestamp}
+                          colorConfig={colorConfig}
+                        />
+                      )}
+                      <AnimatedMessageBubble
+                        message={message}
+                        showUserEmail={showUserEmail}
+                        formatTimestamp={formatTimestamp}
+                        shouldAnimate={message.id === animatedMessageId}
+                        revealMode={prefersReducedMotion ? 'Instant' : revealMode}
+                        revealSpeed={revealSpeed}
+                        onRevealComplete={announceReply}
+                        skipEntrance={isRevisit}
+                        position={index + 1}
+                        setSize={displayedMessages.length}
+                        isTabStop={message.id === tabStopId}
+                        onFocusMessage={setFocusedMessageId}
+                        onSelectSuggestion={message.id === followUpMessageId ? handleSendSuggestion : undefined}
+                        suggestionsDisabled={isLoading || shouldShowLoading}
+                        colorConfig={colorConfig}
+                        onRetry={onRetryMessage}
+                        onDelete={onDeleteMessage}
+                        onFeedback={onFeedback}
+                        isGroupChat={isGroupChat}
+                        isGroupStart={isGroupStart}
+                        highlightQuery={highlightQuery}
+                        isActiveMatch={message.id === activeMatchId}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              {/* A streaming answer shows its own progress inside the bubble */}
+              {shouldShowLoading && !isGenerating && <LoadingIndicator colorConfig={colorConfig} />}
+              {isTimedOut && !isDismissed && (
+                <ResponseTimeoutNotice
+                  onRetry={handleRetryResponse}
+                  onDismiss={dismissTimeout}
+                  colorConfig={colorConfig}
+                />
+              )}
+            </>
+          )}
+        </div>
         <div ref={messagesEndRef} />
       </div>
       
+      {/* Finished replies, read out by screen readers */}
+      <div role="log" aria-live="polite" aria-relevant="additions" className="sr-only">
+        {announcements.map(announcement => (
+          <p key={announcement.id}>{announcement.text}</p>
+        ))}
+      </div>
+      
       {/* Scroll to bottom button (appears when user scrolls up) */}
       {userScrolled && (
         <button
           onClick={() => {
             setUserScrolled(false);
-            messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+            messagesEndRef.current?.scrollIntoView({ behavior: prefersReducedMotion ? 'auto' : 'smooth' });
           }}
-          className="absolute bottom-20 right-4 bg-white border border-gray-300 rounded-full p-2 shadow-lg hover:shadow-xl transition-all duration-200"
+          className="absolute bottom-20 right-4 border border-gray-300 rounded-full p-2 shadow-lg hover:shadow-xl transition-all duration-200"
+          style={{ backgroundColor: colorConfig.headerBackgroundColor, color: colorConfig.headerTextColor }}
           aria-label="Scroll to bottom"
         >
           <svg 
-            className="w-5 h-5 text-gray-600" 
+            className="w-5 h-5" 
             fill="none" 
             stroke="currentColor" 
             viewBox="0 0 24 24"
@@ -262,38 +707,45 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       
       {/* Input Area */}
       <form onSubmit={handleSubmit} className="p-4" style={{ backgroundColor: colorConfig.backgroundColor }}>
-        <div className="flex items-center space-x-2">
+        {/* Tell the user when the prompt never reached the workbook */}
+        {sendState?.phase === 'failed' && sendState.error && (
+          <div className="mb-2 px-3 py-2 rounded-lg text-xs bg-red-50 text-red-600" role="alert">
+            {sendState.error}
+          </div>
+        )}
+        <div className="flex items-end space-x-2">
           <style>
             {`
-              input::placeholder {
+              textarea::placeholder {
                 color: ${colorConfig.placeholderTextColor};
                 opacity: 1;
               }
             `}
           </style>
-          <input
+          <textarea
             ref={inputRef}
-            type="text"
+            rows={1}
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={handleKeyDown}
             placeholder={placeholder}
             disabled={isLoading || shouldShowLoading}
+            aria-invalid={isOverLimit}
             className={clsx(
-              "flex-1 px-4 py-2 rounded-full",
+              "chat-composer flex-1 px-4 py-2 rounded-2xl",
               "focus:outline-none focus:ring-2 focus:ring-offset-2",
               "disabled:opacity-50 disabled:cursor-not-allowed",
               "transition-all duration-200"
             )}
             style={{
-              backgroundColor: colorConfig.backgroundColor,
+              backgroundColor: colorConfig.inputBackgroundColor,
               color: colorConfig.inputTextColor,
               '--tw-ring-color': colorConfig.buttonBackgroundColor,
             } as React.CSSProperties}
           />
           <button
             type="submit"
-            disabled={!inputValue.trim() || isLoading || shouldShowLoading}
+            disabled={!canSend}
             className={clsx(
               "px-6 py-2 rounded-full font-medium",
               "hover:opacity-90 active:opacity-80",
@@ -325,13 +777,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
                   />
                 </svg>
-                Sending...
+                {sendState?.phase === 'syncing' ? 'Syncing...' : 'Sending...'}
               </span>
             ) : (
               'Send'
             )}
           </button>
         </div>
+        {maxPromptLength > 0 && (
+          <div
+            className={clsx("text-xs text-right mt-1 px-2", isOverLimit && "text-red-500")}
+            style={isOverLimit ? undefined : { color: colorConfig.timestampColor }}
+            aria-live="polite"
+          >
+            {isOverLimit && 'Message is too long · '}
+            {inputValue.trim().length} / {maxPromptLength}
+          </div>
+        )}
       </form>
     </div>
   );
@@ -370,7 +832,33 @@ interface AnimatedMessageBubbleProps {
   showUserEmail: boolean;
   formatTimestamp: (date: Date) => string;
   shouldAnimate: boolean;
+  revealMode: RevealMode;
+  revealSpeed: number;
+  // Rows re-rendered after scrolling back into view don't slide in again
+  skipEntrance?: boolean;
   colorConfig: ColorConfig;
+  onRetry?: (messageId: string) => void | Promise<void>;
+  onDelete?: (messageId: string) => void;
+  onFeedback?: (messageId: string, rating: FeedbackRating, comment?: string) => void | Promise<void>;
+  // True when more than one human takes part in the conversation
+  isGroupChat?: boolean;
+  // False for follow-up messages from the same author, which skip avatar and name
+  isGroupStart?: boolean;
+  // Search text to highlight inside the bubble
+  highlightQuery?: string;
+  // The search result currently selected in the header
+  isActiveMatch?: boolean;
+  // Called once the whole message is on screen
+  onRevealComplete?: (message: ChatMessage) => void;
+  // 1-based place in the list and the list length, for assistive technology
+  position?: number;
+  setSize?: number;
+  // The one message reachable with Tab; the arrow keys move between the rest
+  isTabStop?: boolean;
+  onFocusMessage?: (messageId: string) => void;
+  // Set on the latest answer only; shows its follow-up suggestions as chips
+  onSelectSuggestion?: (suggestion: string) => void;
+  suggestionsDisabled?: boolean;
 }
 
 const AnimatedMessageBubble: React.FC<AnimatedMessageBubbleProps> = ({
@@ -378,13 +866,42 @@ const AnimatedMessageBubble: React.FC<AnimatedMessageBubbleProps> = ({
   showUserEmail,
   formatTimestamp,
   shouldAnimate,
+  revealMode,
+  revealSpeed,
+  skipEntrance = false,
   colorConfig,
+  onRetry,
+  onDelete,
+  onFeedback,
+  isGroupChat = false,
+  isGroupStart = true,
+  highlightQuery = '',
+  isActiveMatch = false,
+  onRevealComplete,
+  position,
+  setSize,
+  isTabStop = false,
+  onFocusMessage,
+  onSelectSuggestion,
+  suggestionsDisabled = false,
 }) => {
   const isUser = message.sender === 'user';
-  const [displayedText, setDisplayedText] = useState(shouldAnimate ? '' : message.content);
-  const [currentIndex, setCurrentIndex] = useState(shouldAnimate ? 0 : message.content.length);
-  const [isTyping, setIsTyping] = useState(shouldAnimate);
+  const isAssistant = message.sender === 'assistant';
+  const {
+    revealedText: displayedText,
+    step: revealStep,
+    isRevealing: isTyping,
+    finish: finishReveal,
+  } = useReveal({ text: message.content, mode: revealMode, enabled: shouldAnimate, speed: revealSpeed });
   const messageRef = useRef<HTMLDivElement>(null);
+  const wasTypingRef = useRef(shouldAnimate);
+  
+  useEffect(() => {
+    if (wasTypingRef.current && !isTyping) {
+      onRevealComplete?.(message);
+    }
+    wasTypingRef.current = isTyping;
+  }, [isTyping, message, onRevealComplete]);
   
   // Auto-scroll during typing animation
   useEffect(() => {
@@ -394,158 +911,293 @@ const AnimatedMessageBubble: React.FC<AnimatedMessageBubbleProps> = ({
     }
   }, [displayedText, isTyping]);
   
-  useEffect(() => {
-    // Only run animation logic if we're currently typing
-    if (!isTyping || currentIndex >= message.content.length) {
-      if (isTyping && currentIndex >= message.content.length) {
-        // Animation complete
-        setTimeout(() => {
-          setIsTyping(false);
-        }, 200);
-      }
-      return;
-    }
-    
-    const remainingText = message.content.slice(currentIndex);
-    
-    // Determine chunk size with some randomness for natural feel
-    const getChunkSize = () => {
-      // Look for natural breaking points
-      const nextSpace = remainingText.indexOf(' ');
-      const nextPunctuation = remainingText.search(/[.,!?;:\n]/);
-      const nextNewline = remainingText.indexOf('\n');
-      
-      // Find the nearest natural break point
-      const breakPoints = [nextSpace, nextPunctuation, nextNewline]
-        .filter(point => point > 0)
-        .sort((a, b) => a - b);
-      
-      if (breakPoints.length > 0) {
-        const nearestBreak = breakPoints[0];
-        
-        // For very short segments, include the break character
-        if (nearestBreak <= 3) {
-          return nearestBreak + 1;
-        }
-        
-        // For longer segments, chunk before the break
-        if (nearestBreak <= 15) {
-          // Random decision to break early or at the natural point
-          const shouldBreakEarly = Math.random() > 0.7;
-          if (shouldBreakEarly && nearestBreak > 5) {
-            return Math.floor(nearestBreak * (0.3 + Math.random() * 0.5));
-          }
-          return nearestBreak;
-        }
-      }
-      
-      // No nearby break points, create artificial chunks
-      const baseChunk = 2 + Math.floor(Math.random() * 8); // 2-9 characters
-      const variation = Math.random();
-      
-      if (variation < 0.1) {
-        // 10% chance of very small chunk (1-2 chars)
-        return 1 + Math.floor(Math.random() * 2);
-      } else if (variation < 0.3) {
-        // 20% chance of larger chunk (10-20 chars)
-        return 10 + Math.floor(Math.random() * 11);
-      }
-      
-      return baseChunk;
-    };
-    
-    const chunkSize = Math.min(getChunkSize(), remainingText.length);
-    const chunk = remainingText.slice(0, chunkSize);
-    
-    // Determine delay based on chunk content and size
-    const getDelay = () => {
-      // Base delay that creates a feeling similar to LLM streaming
-      const baseDelay = 20 + Math.random() * 35; // 20-55ms base (was 30-80ms)
-      
-      // Check if we just finished a sentence
-      const lastChar = chunk[chunk.length - 1];
-      if (['.', '!', '?'].includes(lastChar)) {
-        return baseDelay + 150 + Math.random() * 200; // 170-405ms pause after sentence (was 230-580ms)
-      }
-      
-      // Check for other punctuation
-      if ([',', ';', ':'].includes(lastChar)) {
-        return baseDelay + 70 + Math.random() * 70; // 90-210ms pause (was 130-280ms)
-      }
-      
-      // Newline gets a medium pause
-      if (chunk.includes('\n')) {
-        return baseDelay + 100 + Math.random() * 100; // 120-255ms pause (was 180-380ms)
-      }
-      
-      // Occasional random micro-pauses to simulate thinking
-      if (Math.random() < 0.15) {
-        return baseDelay + 30 + Math.random() * 100; // 50-185ms occasional pause (was 80-280ms)
-      }
-      
-      // Add slight variability based on chunk size
-      const sizeMultiplier = 1 + (chunkSize / 20); // Longer chunks = slightly longer delay
-      return baseDelay * sizeMultiplier;
-    };
-    
-    const delay = getDelay();
-    
-    const timeout = setTimeout(() => {
-      setDisplayedText(prev => prev + chunk);
-      setCurrentIndex(prev => prev + chunkSize);
-    }, delay);
-    
-    return () => clearTimeout(timeout);
-  }, [currentIndex, isTyping, message.content.length]);
+  // Other participants get a stable color of their own from the theme palette
+  const otherColor = message.sender === 'other'
+    ? getAuthorColor(message.authorId ?? message.authorName ?? 'unknown', colorConfig)
+    : undefined;
+  const bubbleColor = isUser
+    ? colorConfig.userBubbleColor
+    : otherColor ?? colorConfig.assistantBubbleColor;
+  const textColor = isUser
+    ? colorConfig.userTextColor
+    : otherColor ? getReadableTextColor(otherColor) : colorConfig.assistantTextColor;
+  
+  // In shared threads everyone but the viewer gets an avatar and a name
+  const showAvatar = isGroupChat && !isUser;
+  const authorLabel = isAssistant
+    ? message.authorName || 'Assistant'
+    : message.authorName || message.email || 'Unknown';
+  
+  const timeLabel = message.timestampUnknown ? 'unknown time' : formatTimestamp(message.timestamp);
   
   return (
     <div
       ref={messageRef}
+      role="article"
+      tabIndex={isTabStop ? 0 : -1}
+      aria-posinset={position}
+      aria-setsize={setSize}
+      aria-label={`${isUser ? 'You' : authorLabel}, ${timeLabel}`}
+      aria-busy={isTyping || Boolean(message.isGenerating)}
+      data-message-id={message.id}
+      onFocus={(e) => {
+        if (e.target === e.currentTarget) onFocusMessage?.(message.id);
+      }}
       className={clsx(
-        "group flex flex-col gap-0.5 mb-3",
-        isUser ? "items-end" : "items-start"
+        "group flex gap-2 mb-3 rounded-lg",
+        "focus:outline-none focus-visible:ring-2",
+        isActiveMatch && "chat-search-active",
+        isUser ? "justify-end" : "justify-start"
       )}
+      style={{ '--tw-ring-color': colorConfig.buttonBackgroundColor } as React.CSSProperties}
     >
-      {/* Timestamp - Always visible above the bubble */}
-      <div className="text-xs px-2" style={{ color: colorConfig.timestampColor }}>
-        {formatTimestamp(message.timestamp)}
-      </div>
-      
-      {/* Show email above user messages if enabled */}
-      {showUserEmail && isUser && message.email && (
-        <p className="text-xs px-2 mb-1" style={{ color: colorConfig.timestampColor }}>
-          {message.email}
-        </p>
+      {showAvatar && (
+        <div className="w-8 flex-shrink-0 self-end">
+          {isGroupStart && (
+            <Avatar
+              name={authorLabel}
+              color={isAssistant ? colorConfig.buttonBackgroundColor : bubbleColor}
+            />
+          )}
+        </div>
       )}
       
-      {/* Message bubble */}
       <div
         className={clsx(
-          "chat-bubble",
-          isTyping && !isUser && "assistant-typing"
+          "flex flex-col gap-0.5 min-w-0",
+          showAvatar && "flex-1",
+          isUser ? "items-end" : "items-start"
         )}
-        style={{
-          backgroundColor: isUser ? colorConfig.userBubbleColor : colorConfig.assistantBubbleColor,
-          color: isUser ? colorConfig.userTextColor : colorConfig.assistantTextColor,
-          borderBottomRightRadius: isUser ? '0.25rem' : undefined,
-          borderBottomLeftRadius: !isUser ? '0.25rem' : undefined,
-        }}
       >
-        <p className="whitespace-pre-wrap break-words">
-          {displayedText}
-          {isTyping && <span className="typewriter-cursor" />}
-        </p>
+        {/* Sender name and timestamp - name only on the first message of a group */}
+        <div className="text-xs px-2" style={{ color: colorConfig.timestampColor }}>
+          {showAvatar && isGroupStart && (
+            <span className="font-medium mr-1">
+              <HighlightedText text={authorLabel} query={highlightQuery} />
+            </span>
+          )}
+          {message.timestampUnknown ? (
+            <span className="italic" title="This message has no valid timestamp">unknown time</span>
+          ) : (
+            formatTimestamp(message.timestamp)
+          )}
+        </div>
+        
+        {/* Show email above human messages if enabled */}
+        {showUserEmail && !isAssistant && message.email && (
+          <p className="text-xs px-2 mb-1" style={{ color: colorConfig.timestampColor }}>
+            {message.email}
+          </p>
+        )}
+        
+        {/* Message bubble */}
+        <div
+          className={clsx(
+            "chat-bubble",
+            skipEntrance && "animate-none",
+            showAvatar && "max-w-[85%]",
+            isTyping && isAssistant && "assistant-typing cursor-pointer",
+            message.status === 'pending' && "opacity-70"
+          )}
+          style={{
+            backgroundColor: bubbleColor,
+            color: textColor,
+            borderBottomRightRadius: isUser ? '0.25rem' : undefined,
+            borderBottomLeftRadius: !isUser ? '0.25rem' : undefined,
+          }}
+          // Clicking a reply that is still being revealed shows all of it
+          onClick={isTyping ? finishReveal : undefined}
+          title={isTyping ? 'Click to show the full reply' : undefined}
+        >
+          {!isAssistant ? (
+            <p className="whitespace-pre-wrap break-words">
+              <HighlightedText text={displayedText} query={highlightQuery} />
+            </p>
+          ) : (
+            <MarkdownContent
+              content={displayedText}
+              isPartial={isTyping || Boolean(message.isGenerating)}
+              colorConfig={colorConfig}
+              highlightQuery={highlightQuery}
+              fadeStep={isTyping && revealMode === 'Word fade' ? revealStep : undefined}
+            />
+          )}
+          {isTyping && revealMode !== 'Word fade' && <span className="typewriter-cursor" />}
+        </div>
+        
+        {/* The action chain is still writing this answer */}
+        {isAssistant && message.isGenerating && (
+          <div className="flex items-center gap-1 text-xs px-2" style={{ color: colorConfig.timestampColor }}>
+            <span className="typing-indicator p-0" aria-hidden="true">
+              <span className="typing-dot w-1.5 h-1.5" />
+              <span className="typing-dot w-1.5 h-1.5" />
+              <span className="typing-dot w-1.5 h-1.5" />
+            </span>
+            Still generating...
+          </div>
+        )}
+        
+        {/* Model, latency, tokens and sources under assistant answers */}
+        {isAssistant && message.metadata && !isTyping && (
+          <MessageDetails metadata={message.metadata} colorConfig={colorConfig} />
+        )}
+        
+        {/* Thumbs up / down on finished assistant answers */}
+        {isAssistant && onFeedback && !isTyping && !message.isGenerating && (
+          <FeedbackActions
+            messageId={message.id}
+            rating={message.feedback}
+            onFeedback={onFeedback}
+            colorConfig={colorConfig}
+          />
+        )}
+        
+        {/* Follow-up prompts under the latest answer */}
+        {onSelectSuggestion && message.suggestions && !isTyping && !message.isGenerating && (
+          <SuggestionChips
+            suggestions={message.suggestions}
+            onSelect={onSelectSuggestion}
+            disabled={suggestionsDisabled}
+            colorConfig={colorConfig}
+            label="Suggested follow-ups"
+            className="mt-1 px-2"
+          />
+        )}
+        
+        {/* Delivery state for messages sent from this plugin */}
+        {message.status && (
+          <MessageStatusLine
+            message={message}
+            colorConfig={colorConfig}
+            onRetry={onRetry}
+            onDelete={onDelete}
+          />
+        )}
       </div>
     </div>
   );
 };
 
+// Highlighted Text Component - wraps search hits in <mark>
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  if (!query) return <>{text}</>;
+  
+  return (
+    <>
+      {splitHighlights(text, query).map((segment, index) => (
+        segment.isMatch ? (
+          <mark key={index} className={HIGHLIGHT_CLASS_NAME}>{segment.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      ))}
+    </>
+  );
+};
+
+// Avatar Component - initials on a colored circle
+interface AvatarProps {
+  name: string;
+  color: string;
+}
+
+const getInitials = (name: string): string => {
+  // Use the local part of email addresses, split on spaces, dots, dashes and underscores
+  const words = name.split('@')[0].split(/[\s._-]+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return (words[0][0] + words[words.length - 1][0]).toUpperCase();
+};
+
+const Avatar: React.FC<AvatarProps> = ({ name, color }) => (
+  <div
+    className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold select-none"
+    style={{ backgroundColor: color, color: getReadableTextColor(color) }}
+    title={name}
+    aria-hidden="true"
+  >
+    {getInitials(name)}
+  </div>
+);
+
+// Message Status Component
+interface MessageStatusLineProps {
+  message: ChatMessage;
+  colorConfig: ColorConfig;
+  onRetry?: (messageId: string) => void | Promise<void>;
+  onDelete?: (messageId: string) => void;
+}
+
+const MessageStatusLine: React.FC<MessageStatusLineProps> = ({ message, colorConfig, onRetry, onDelete }) => {
+  if (message.status === 'failed') {
+    return (
+      <div className="flex items-center gap-2 text-xs px-2 text-red-500">
+        <span>Not delivered</span>
+        {onRetry && (
+          <button type="button" onClick={() => onRetry(message.id)} className="font-medium underline hover:opacity-80">
+            Retry
+          </button>
+        )}
+        {onDelete && (
+          <button type="button" onClick={() => onDelete(message.id)} className="font-medium underline hover:opacity-80">
+            Delete
+          </button>
+        )}
+      </div>
+    );
+  }
+  
+  return (
+    <div className="text-xs px-2" style={{ color: colorConfig.timestampColor }}>
+      {message.status === 'pending' ? 'Sending...' : 'Sent'}
+    </div>
+  );
+};
+
+// Older Messages Loader Component
+interface OlderMessagesLoaderProps {
+  isLoading: boolean;
+  onLoad: () => void;
+  colorConfig: ColorConfig;
+}
+
+const OlderMessagesLoader: React.FC<OlderMessagesLoaderProps> = ({ isLoading, onLoad, colorConfig }) => {
+  return (
+    <div className="flex justify-center text-xs" style={{ color: colorConfig.timestampColor }}>
+      {isLoading ? (
+        <span aria-live="polite">Loading earlier messages...</span>
+      ) : (
+        <button type="button" onClick={onLoad} className="font-medium underline hover:opacity-80">
+          Load earlier messages
+        </button>
+      )}
+    </div>
+  );
+};
+
 // Loading Indicator Component
-const LoadingIndicator: React.FC = () => {
+interface LoadingIndicatorProps {
+  colorConfig: ColorConfig;
+}
+
+const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ colorConfig }) => {
   return (
     <div className="flex justify-start">
-      <div className="chat-bubble chat-bubble-assistant flex items-center min-h-[2.5rem]">
-        <div className="typing-indicator">
+      <div
+        className="chat-bubble flex items-center min-h-[2.5rem]"
+        style={{
+          backgroundColor: colorConfig.assistantBubbleColor,
+          color: colorConfig.assistantTextColor,
+          borderBottomLeftRadius: '0.25rem',
+        }}
+      >
+        <div className="typing-indicator" role="status">
+          <span className="sr-only">Assistant is typing</span>
           <span className="typing-dot" />
           <span className="typing-dot" />
           <span className="typing-dot" />
@@ -555,4 +1207,34 @@ const LoadingIndicator: React.FC = () => {
   );
 };
 
+// Response Timeout Notice Component
+interface ResponseTimeoutNoticeProps {
+  onRetry: () => void;
+  onDismiss: () => void;
+  colorConfig: ColorConfig;
+}
+
+const ResponseTimeoutNotice: React.FC<ResponseTimeoutNoticeProps> = ({ onRetry, onDismiss, colorConfig }) => {
+  return (
+    <div className="flex justify-start">
+      <div
+        className="chat-bubble flex items-center gap-3 text-sm"
+        style={{
+          backgroundColor: colorConfig.assistantBubbleColor,
+          color: colorConfig.assistantTextColor,
+          borderBottomLeftRadius: '0.25rem',
+        }}
+      >
+        <span>No response yet</span>
+        <button type="button" onClick={onRetry} className="font-medium underline hover:opacity-80">
+          Retry
+        </button>
+        <button type="button" onClick={onDismiss} className="font-medium underline hover:opacity-80">
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export default ChatInterface;
\ No newline at end of file
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { ContrastIssue } from '../utils/themes';
+
+interface ContrastWarningProps {
+  issues: ContrastIssue[];
+}
+
+// Shown to workbook authors only, so viewers never see it
+const ContrastWarning: React.FC<ContrastWarningProps> = ({ issues }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  if (issues.length === 0 || isDismissed) return null;
+
+  return (
+    <div className="px-4 py-2 text-xs bg-amber-50 text-amber-900 border-b border-amber-200" role="status">
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          {issues.length} color {issues.length === 1 ? 'pair is' : 'pairs are'} below WCAG AA contrast (4.5:1).
+          Adjust the colors or turn on "Auto-adjust Text Contrast".
+        </span>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => setIsExpanded(expanded => !expanded)}
+            className="font-medium underline hover:opacity-80"
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? 'Hide' : 'Details'}
+          </button>
+          <button type="button" onClick={() => setIsDismissed(true)} className="font-medium underline hover:opacity-80">
+            Dismiss
+          </button>
+        </div>
+      </div>
+      {isExpanded && (
+        <ul className="mt-1 space-y-0.5">
+          {issues.map(issue => (
+            <li key={issue.text + issue.background}>
+              {issue.label}: {issue.ratio.toFixed(2)}:1
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ContrastWarning;
@@ -0,0 +1,169 @@
+import React, { useRef, useEffect } from 'react';
+import clsx from 'clsx';
+import { ColorConfig } from '../types/chat.types';
+import { MessageFilters, SenderFilter } from '../utils/search';
+
+interface ConversationSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  filters: MessageFilters;
+  onFiltersChange: (filters: MessageFilters) => void;
+  matchCount: number;
+  // Position of the selected result, -1 when there is none
+  activeMatch: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  onClose: () => void;
+  colorConfig: ColorConfig;
+}
+
+const SENDER_OPTIONS: { value: SenderFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'user', label: 'User' },
+  { value: 'assistant', label: 'Assistant' },
+];
+
+const ConversationSearch: React.FC<ConversationSearchProps> = ({
+  query,
+  onQueryChange,
+  filters,
+  onFiltersChange,
+  matchCount,
+  activeMatch,
+  onPrevious,
+  onNext,
+  onClose,
+  colorConfig,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Enter walks back through older results, Shift+Enter forward; Escape closes
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onNext();
+      } else {
+        onPrevious();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="px-4 py-2 space-y-2 border-b border-gray-200 text-sm"
+      style={{
+        backgroundColor: colorConfig.headerBackgroundColor,
+        color: colorConfig.headerTextColor,
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search this conversation"
+          aria-label="Search this conversation"
+          className="flex-1 min-w-0 px-3 py-1 rounded-full border border-gray-300 focus:outline-none focus:ring-2"
+          style={{
+            backgroundColor: colorConfig.inputBackgroundColor,
+            color: colorConfig.inputTextColor,
+            '--tw-ring-color': colorConfig.buttonBackgroundColor,
+          } as React.CSSProperties}
+        />
+        {query.trim() && (
+          <span className="text-xs flex-shrink-0 tabular-nums" style={{ color: colorConfig.timestampColor }} aria-live="polite">
+            {matchCount === 0 ? 'No results' : `${activeMatch + 1} of ${matchCount}`}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={onPrevious}
+          disabled={matchCount === 0}
+          className="p-1 rounded hover:bg-black/5 disabled:opacity-40 disabled:cursor-not-allowed"
+          aria-label="Previous result"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+          </svg>
+        </button>
+        <button
+          type="button"
+          onClick={onNext}
+          disabled={matchCount === 0}
+          className="p-1 rounded hover:bg-black/5 disabled:opacity-40 disabled:cursor-not-allowed"
+          aria-label="Next result"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded hover:bg-black/5"
+          aria-label="Close search"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Sender and date range filters */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+        <div className="flex rounded-full border border-gray-300 overflow-hidden" role="group" aria-label="Show messages from">
+          {SENDER_OPTIONS.map(option => {
+            const isSelected = filters.sender === option.value;
+            return (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => onFiltersChange({ ...filters, sender: option.value })}
+                aria-pressed={isSelected}
+                className={clsx("px-2 py-0.5", !isSelected && "hover:bg-black/5")}
+                style={isSelected ? {
+                  backgroundColor: colorConfig.buttonBackgroundColor,
+                  color: colorConfig.buttonTextColor,
+                } : undefined}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+        <label className="flex items-center gap-1">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => onFiltersChange({ ...filters, from: e.target.value })}
+            className="px-1 rounded border border-gray-300 bg-transparent"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => onFiltersChange({ ...filters, to: e.target.value })}
+            className="px-1 rounded border border-gray-300 bg-transparent"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSearch;
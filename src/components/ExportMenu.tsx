@@ -0,0 +1,74 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ColorConfig } from '../types/chat.types';
+import { ExportFormat } from '../utils/exportConversation';
+
+interface ExportMenuProps {
+  onExport: (exportFormat: ExportFormat) => void;
+  disabled?: boolean;
+  colorConfig: ColorConfig;
+}
+
+const EXPORT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown (.md)' },
+  { value: 'json', label: 'JSON (.json)' },
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'html', label: 'Print / Save as PDF' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled = false, colorConfig }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="px-2 py-0.5 rounded text-sm hover:bg-black/5 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full mt-1 w-48 rounded-lg shadow-lg border border-gray-200 z-20 py-1"
+          style={{ backgroundColor: colorConfig.headerBackgroundColor, color: colorConfig.headerTextColor }}
+        >
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                onExport(option.value);
+              }}
+              className="w-full px-3 py-1.5 text-left text-sm hover:bg-black/5"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
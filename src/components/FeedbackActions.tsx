@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import { ColorConfig, FeedbackRating } from '../types/chat.types';
+
+interface FeedbackActionsProps {
+  messageId: string;
+  rating?: FeedbackRating;
+  onFeedback: (messageId: string, rating: FeedbackRating, comment?: string) => void | Promise<void>;
+  colorConfig: ColorConfig;
+}
+
+const FeedbackActions: React.FC<FeedbackActionsProps> = ({
+  messageId,
+  rating,
+  onFeedback,
+  colorConfig,
+}) => {
+  // Rating picked but not submitted yet, while the reason box is open
+  const [draftRating, setDraftRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState('');
+
+  const submit = async (withComment: boolean) => {
+    if (!draftRating) return;
+    const submittedRating = draftRating;
+    setDraftRating(null);
+    setComment('');
+    await onFeedback(messageId, submittedRating, withComment && comment.trim() ? comment.trim() : undefined);
+  };
+
+  const activeRating = draftRating ?? rating;
+
+  return (
+    <div className="px-2 text-xs" style={{ color: colorConfig.timestampColor }}>
+      <div
+        className={clsx(
+          "flex items-center gap-1 transition-opacity duration-200",
+          // Stay visible once rated; otherwise only show on hover/focus
+          activeRating ? "opacity-100" : "opacity-0 group-hover:opacity-100 focus-within:opacity-100"
+        )}
+      >
+        <RatingButton
+          rating="up"
+          isActive={activeRating === 'up'}
+          onClick={() => setDraftRating('up')}
+          colorConfig={colorConfig}
+        />
+        <RatingButton
+          rating="down"
+          isActive={activeRating === 'down'}
+          onClick={() => setDraftRating('down')}
+          colorConfig={colorConfig}
+        />
+      </div>
+
+      {draftRating && (
+        <form
+          className="flex items-center gap-2 mt-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(true);
+          }}
+        >
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={draftRating === 'down' ? 'What went wrong? (optional)' : 'What was helpful? (optional)'}
+            className="flex-1 min-w-[10rem] px-2 py-1 rounded border border-gray-300 focus:outline-none"
+            style={{ color: colorConfig.inputTextColor, backgroundColor: colorConfig.headerBackgroundColor }}
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="px-2 py-1 rounded font-medium hover:opacity-90"
+            style={{ backgroundColor: colorConfig.buttonBackgroundColor, color: colorConfig.buttonTextColor }}
+          >
+            Submit
+          </button>
+          <button type="button" onClick={() => submit(false)} className="underline hover:opacity-80">
+            Skip
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// Rating Button Component
+interface RatingButtonProps {
+  rating: FeedbackRating;
+  isActive: boolean;
+  onClick: () => void;
+  colorConfig: ColorConfig;
+}
+
+const RatingButton: React.FC<RatingButtonProps> = ({ rating, isActive, onClick, colorConfig }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="p-1 rounded hover:bg-black/5"
+    aria-label={rating === 'up' ? 'Good answer' : 'Bad answer'}
+    aria-pressed={isActive}
+    style={isActive ? { color: colorConfig.buttonBackgroundColor } : undefined}
+  >
+    <svg
+      className={clsx("w-4 h-4", rating === 'down' && "rotate-180")}
+      fill={isActive ? 'currentColor' : 'none'}
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5"
+      />
+    </svg>
+  </button>
+);
+
+export default FeedbackActions;
@@ -0,0 +1,11 @@
+import React from 'react';
+
+// Shown to workbook authors only, when the history table is sorted oldest first
+const HistoryOrderNotice: React.FC = () => (
+  <div className="px-4 py-2 text-xs bg-amber-50 text-amber-900 border-b border-amber-200" role="status">
+    The Chat History Table is sorted oldest first, so every page is loaded to reach the latest messages.
+    Sort it by the Timestamp Column, newest first, to load only recent history.
+  </div>
+);
+
+export default HistoryOrderNotice;
@@ -0,0 +1,137 @@
+import React, { useState, useRef, useMemo } from 'react';
+import Markdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import clsx from 'clsx';
+import { ColorConfig } from '../types/chat.types';
+import { stabilizePartialMarkdown } from '../utils/markdown';
+import { isChartBlock } from '../utils/chartSpec';
+import { rehypeHighlight } from '../utils/highlight';
+import { rehypeFadeLastWord } from '../utils/reveal';
+import ChartBlock from './ChartBlock';
+
+interface MarkdownContentProps {
+  content: string;
+  // True while the typewriter is still revealing the message
+  isPartial?: boolean;
+  className?: string;
+  colorConfig: ColorConfig;
+  // Search text to highlight in the rendered output
+  highlightQuery?: string;
+  // Reveal step count in "Word fade" mode; the newest word fades in
+  fadeStep?: number;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  isPartial = false,
+  className,
+  colorConfig,
+  highlightQuery = '',
+  fadeStep,
+}) => {
+  const source = useMemo(
+    () => (isPartial ? stabilizePartialMarkdown(content) : content),
+    [content, isPartial]
+  );
+
+  const rehypePlugins = useMemo(() => [
+    ...(highlightQuery ? [() => rehypeHighlight(highlightQuery)] : []),
+    ...(fadeStep !== undefined ? [() => rehypeFadeLastWord(fadeStep)] : []),
+  ], [highlightQuery, fadeStep]);
+
+  const components = useMemo<Components>(() => ({
+    ...MARKDOWN_COMPONENTS,
+    pre: ({ node: _node, ...props }) => {
+      const { language, code } = getCodeBlockContent(props.children);
+      if (isChartBlock(language, code)) {
+        return <ChartBlock code={code} colorConfig={colorConfig} isPartial={isPartial} />;
+      }
+      return <CodeBlock language={language} {...props} />;
+    },
+  }), [colorConfig, isPartial]);
+
+  return (
+    <div className={clsx("chat-markdown break-words", className)}>
+      <Markdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={rehypePlugins}
+        components={components}
+        // Raw HTML from the action chain is never rendered
+        skipHtml
+      >
+        {source}
+      </Markdown>
+    </div>
+  );
+};
+
+// Pull the language and raw text out of the <code> element remark puts inside <pre>
+const getCodeBlockContent = (children: React.ReactNode): { language?: string; code: string } => {
+  const codeElement = React.Children.toArray(children)
+    .find(child => React.isValidElement<{ className?: string; children?: React.ReactNode }>(child));
+
+  if (!React.isValidElement<{ className?: string; children?: React.ReactNode }>(codeElement)) {
+    return { code: '' };
+  }
+
+  const language = codeElement.props.className
+    ?.split(' ')
+    .find(name => name.startsWith('language-'))
+    ?.replace('language-', '');
+  const code = React.Children.toArray(codeElement.props.children).join('').replace(/\n$/, '');
+
+  return { language, code };
+};
+
+// Code Block Component with Copy Button
+interface CodeBlockProps extends React.HTMLAttributes<HTMLPreElement> {
+  language?: string;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ language, children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const text = preRef.current?.textContent ?? '';
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Error copying code block:', error);
+    }
+  };
+
+  return (
+    <div className="chat-code-block">
+      <div className="chat-code-block-header">
+        <span>{language || 'code'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="hover:opacity-80 transition-opacity duration-200"
+          aria-label="Copy code"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre ref={preRef} {...props}>
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const MARKDOWN_COMPONENTS: Components = {
+  a: ({ node: _node, ...props }) => (
+    <a {...props} target="_blank" rel="noopener noreferrer" />
+  ),
+  table: ({ node: _node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+export default MarkdownContent;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ColorConfig, MessageMetadata } from '../types/chat.types';
+
+interface MessageDetailsProps {
+  metadata: MessageMetadata;
+  colorConfig: ColorConfig;
+}
+
+const formatLatency = (latencyMs: number) =>
+  latencyMs < 1000 ? `${Math.round(latencyMs)} ms` : `${(latencyMs / 1000).toFixed(1)} s`;
+
+const formatCount = (count: number) => count.toLocaleString();
+
+const MessageDetails: React.FC<MessageDetailsProps> = ({ metadata, colorConfig }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const stats = [
+    metadata.model,
+    metadata.latencyMs !== undefined ? formatLatency(metadata.latencyMs) : undefined,
+    metadata.inputTokens !== undefined ? `${formatCount(metadata.inputTokens)} tokens in` : undefined,
+    metadata.outputTokens !== undefined ? `${formatCount(metadata.outputTokens)} tokens out` : undefined,
+  ].filter((stat): stat is string => Boolean(stat));
+  const sources = metadata.sources ?? [];
+
+  return (
+    <div className="px-2 text-xs max-w-chat-bubble" style={{ color: colorConfig.timestampColor }}>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(expanded => !expanded)}
+        className="flex items-center gap-1 hover:opacity-80"
+        aria-expanded={isExpanded}
+      >
+        <svg
+          className={`w-3 h-3 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        Details
+        {sources.length > 0 && ` · ${sources.length} ${sources.length === 1 ? 'source' : 'sources'}`}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-1 space-y-1">
+          {stats.length > 0 && <p>{stats.join(' · ')}</p>}
+          {sources.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {sources.map((source, index) => {
+                const chipStyle = {
+                  backgroundColor: colorConfig.dayStampBackgroundColor,
+                  color: colorConfig.dayStampTextColor,
+                };
+                return source.url ? (
+                  <a
+                    key={`${source.url}-${index}`}
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={source.url}
+                    className="px-2 py-0.5 rounded-full underline-offset-2 hover:underline truncate max-w-[16rem]"
+                    style={chipStyle}
+                  >
+                    {source.label}
+                  </a>
+                ) : (
+                  <span
+                    key={`${source.label}-${index}`}
+                    className="px-2 py-0.5 rounded-full truncate max-w-[16rem]"
+                    style={chipStyle}
+                  >
+                    {source.label}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageDetails;
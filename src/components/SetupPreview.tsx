@@ -0,0 +1,121 @@
+import React from 'react';
+import { WorkbookElementColumns } from '@sigmacomputing/plugin';
+import { ChatMessage } from '../types/chat.types';
+import { ColumnMapping, ColumnTypeIssue, MAPPABLE_COLUMN_LABELS, MappableColumnKey } from '../utils/columnMapping';
+
+const PREVIEW_MESSAGE_COUNT = 5;
+const PREVIEW_CONTENT_LENGTH = 140;
+
+interface SetupPreviewProps {
+  columns: WorkbookElementColumns;
+  mapping: ColumnMapping;
+  inferredKeys: MappableColumnKey[];
+  issues: ColumnTypeIssue[];
+  messages: ChatMessage[];
+  onApply?: () => void;
+  onContinue: () => void;
+}
+
+// Shown to workbook authors only, before the chat, while columns are guessed or look wrong
+const SetupPreview: React.FC<SetupPreviewProps> = ({
+  columns,
+  mapping,
+  inferredKeys,
+  issues,
+  messages,
+  onApply,
+  onContinue,
+}) => {
+  const previewMessages = messages.slice(0, PREVIEW_MESSAGE_COUNT);
+  const mappingKeys = Object.keys(MAPPABLE_COLUMN_LABELS) as MappableColumnKey[];
+
+  return (
+    <div className="h-full w-full overflow-y-auto bg-gray-50">
+      <div className="max-w-xl mx-auto p-6 space-y-5">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Check your chat columns</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Columns marked "auto" were picked from the table's column names and types.
+            Viewers use this mapping until you choose columns in the plugin panel.
+          </p>
+        </div>
+
+        <table className="w-full text-sm">
+          <tbody>
+            {mappingKeys.map(key => {
+              const columnId = mapping[key];
+              return (
+                <tr key={key} className="border-b border-gray-200">
+                  <th scope="row" className="py-1.5 pr-4 text-left font-medium text-gray-700">
+                    {MAPPABLE_COLUMN_LABELS[key]}
+                  </th>
+                  <td className="py-1.5 text-gray-800">
+                    {columnId ? (columns[columnId]?.name ?? columnId) : <span className="text-gray-400">Not mapped</span>}
+                    {columnId && inferredKeys.includes(key) && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-xs">auto</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {issues.length > 0 && (
+          <ul className="p-3 rounded-lg bg-amber-50 text-amber-900 border border-amber-200 text-sm space-y-1" role="status">
+            {issues.map(issue => (
+              <li key={issue.key}>
+                <strong>{issue.label}:</strong> "{issue.columnName}" is a {issue.columnType} column
+                (expected {issue.expectedTypes.join(' or ')}).
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">First messages</h3>
+          {previewMessages.length === 0 ? (
+            <p className="text-sm text-gray-500">No messages could be read with these columns.</p>
+          ) : (
+            <ul className="space-y-2">
+              {previewMessages.map(message => (
+                <li key={message.id} className="p-2 rounded-lg bg-white border border-gray-200 text-sm">
+                  <div className="flex justify-between gap-2 text-xs text-gray-500">
+                    <span>{message.authorName || message.sender} ({message.sender})</span>
+                    <span>{message.timestampUnknown ? 'No timestamp' : message.timestamp.toLocaleString()}</span>
+                  </div>
+                  <p className="mt-1 text-gray-800 break-words">
+                    {message.content.length > PREVIEW_CONTENT_LENGTH
+                      ? `${message.content.slice(0, PREVIEW_CONTENT_LENGTH)}...`
+                      : message.content}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {onApply && (
+            <button
+              type="button"
+              onClick={onApply}
+              className="px-3 py-1.5 rounded-lg text-sm border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              Use these columns
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onContinue}
+            className="px-3 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Continue to chat
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetupPreview;
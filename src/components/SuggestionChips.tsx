@@ -0,0 +1,51 @@
+import React from 'react';
+import clsx from 'clsx';
+import { ColorConfig } from '../types/chat.types';
+
+interface SuggestionChipsProps {
+  suggestions: string[];
+  onSelect: (suggestion: string) => void;
+  disabled?: boolean;
+  colorConfig: ColorConfig;
+  label: string;
+  className?: string;
+}
+
+const SuggestionChips: React.FC<SuggestionChipsProps> = ({
+  suggestions,
+  onSelect,
+  disabled = false,
+  colorConfig,
+  label,
+  className,
+}) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={clsx("flex flex-wrap gap-2", className)} role="group" aria-label={label}>
+      {suggestions.map(suggestion => (
+        <button
+          key={suggestion}
+          type="button"
+          onClick={() => onSelect(suggestion)}
+          disabled={disabled}
+          className={clsx(
+            "px-3 py-1 rounded-full border text-sm text-left",
+            "hover:opacity-80 disabled:opacity-50 disabled:cursor-not-allowed",
+            "focus:outline-none focus-visible:ring-2"
+          )}
+          style={{
+            backgroundColor: colorConfig.inputBackgroundColor,
+            color: colorConfig.inputTextColor,
+            borderColor: colorConfig.buttonBackgroundColor,
+            '--tw-ring-color': colorConfig.buttonBackgroundColor,
+          } as React.CSSProperties}
+        >
+          {suggestion}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SuggestionChips;
@@ -0,0 +1,138 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { format, isSameDay } from 'date-fns';
+import clsx from 'clsx';
+import { ChatThread, ColorConfig } from '../types/chat.types';
+import { toZonedTime } from '../utils/timestamps';
+
+interface ThreadPickerProps {
+  threads: ChatThread[];
+  activeThreadId?: string;
+  onSelectThread: (threadId: string) => void;
+  onNewThread?: () => void | Promise<void>;
+  colorConfig: ColorConfig;
+  timeFormat?: string;
+  displayTimeZone?: string;
+}
+
+const formatThreadTime = (date: Date, timeFormat: string, displayTimeZone?: string) => {
+  const zonedDate = toZonedTime(date, displayTimeZone);
+  return isSameDay(zonedDate, toZonedTime(new Date(), displayTimeZone))
+    ? format(zonedDate, timeFormat)
+    : format(zonedDate, 'MMM d');
+};
+
+const ThreadPicker: React.FC<ThreadPickerProps> = ({
+  threads,
+  activeThreadId,
+  onSelectThread,
+  onNewThread,
+  colorConfig,
+  timeFormat = 'h:mm a',
+  displayTimeZone,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+  const otherUnread = threads
+    .filter(thread => thread.id !== activeThreadId)
+    .reduce((total, thread) => total + thread.unreadCount, 0);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative min-w-0">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 min-w-0 text-sm font-medium hover:opacity-80"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="truncate">{activeThread?.title ?? 'Conversations'}</span>
+        {otherUnread > 0 && <UnreadBadge count={otherUnread} colorConfig={colorConfig} />}
+        <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute left-0 top-full mt-1 w-72 max-h-80 overflow-y-auto rounded-lg shadow-lg border border-gray-200 z-20"
+          style={{ backgroundColor: colorConfig.headerBackgroundColor, color: colorConfig.headerTextColor }}
+        >
+          {onNewThread && (
+            <button
+              type="button"
+              onClick={() => {
+                setIsOpen(false);
+                onNewThread();
+              }}
+              className="w-full px-3 py-2 text-left text-sm font-medium border-b border-gray-200 hover:bg-black/5"
+              style={{ color: colorConfig.buttonBackgroundColor }}
+            >
+              + New conversation
+            </button>
+          )}
+          <ul role="listbox" aria-label="Conversations">
+            {threads.map(thread => (
+              <li key={thread.id} role="option" aria-selected={thread.id === activeThreadId}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsOpen(false);
+                    onSelectThread(thread.id);
+                  }}
+                  className={clsx(
+                    "w-full px-3 py-2 text-left hover:bg-black/5",
+                    thread.id === activeThreadId && "bg-black/5"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={clsx("truncate text-sm", thread.unreadCount > 0 && "font-semibold")}>
+                      {thread.title}
+                    </span>
+                    {thread.unreadCount > 0 && (
+                      <UnreadBadge count={thread.unreadCount} colorConfig={colorConfig} />
+                    )}
+                  </div>
+                  <div className="text-xs" style={{ color: colorConfig.timestampColor }}>
+                    {formatThreadTime(thread.lastMessageAt, timeFormat, displayTimeZone)} · {thread.messageCount} messages
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Unread Badge Component
+interface UnreadBadgeProps {
+  count: number;
+  colorConfig: ColorConfig;
+}
+
+const UnreadBadge: React.FC<UnreadBadgeProps> = ({ count, colorConfig }) => (
+  <span
+    className="flex-shrink-0 min-w-[1.25rem] px-1.5 rounded-full text-xs text-center"
+    style={{ backgroundColor: colorConfig.buttonBackgroundColor, color: colorConfig.buttonTextColor }}
+  >
+    {count > 99 ? '99+' : count}
+  </span>
+);
+
+export default ThreadPicker;
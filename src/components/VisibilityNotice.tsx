@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface VisibilityNoticeProps {
+  hiddenCount: number;
+  viewerEmail: string;
+}
+
+// Shown to workbook authors only, so viewers never learn what was hidden
+const VisibilityNotice: React.FC<VisibilityNoticeProps> = ({ hiddenCount, viewerEmail }) => {
+  if (hiddenCount === 0) return null;
+
+  return (
+    <div className="px-4 py-2 text-xs bg-slate-100 text-slate-700 border-b border-slate-200" role="status">
+      Filtered {hiddenCount} {hiddenCount === 1 ? 'message' : 'messages'} via the Visibility Column
+      {viewerEmail ? ` for ${viewerEmail}` : ' - no viewer email is set, so rows limited to specific emails stay hidden'}.
+    </div>
+  );
+};
+
+export default VisibilityNotice;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { SigmaClientProvider } from '@sigmacomputing/plugin';
+import App from '../App';
+import { DemoClient, DemoOptions, DemoReplyMode, createDemoClient } from './createDemoClient';
+import sampleHistoryCsv from './sampleHistory.csv?raw';
+
+const CANNED_REPLIES = [
+  'Revenue is up **8%** month over month, led by the West region.',
+  'Here is the breakdown:\n\n| Segment | Orders |\n|---|---|\n| Enterprise | 412 |\n| SMB | 1,204 |',
+  "I couldn't find a column called `churn_date`. Did you mean `cancelled_at`?",
+];
+
+// Demo settings from the URL, e.g. ?demo&latency=2000&failureRate=0.2&reply=canned&env=viewer
+const readUrlOptions = (): Omit<DemoOptions, 'historyCsv' | 'cannedReplies'> => {
+  const params = new URLSearchParams(window.location.search);
+  const latency = Number(params.get('latency'));
+  const failureRate = Number(params.get('failureRate'));
+  const env = params.get('env');
+
+  return {
+    latencyMs: Number.isFinite(latency) && latency >= 0 && params.has('latency') ? latency : 1200,
+    failureRate: Number.isFinite(failureRate) ? Math.min(Math.max(failureRate, 0), 1) : 0,
+    replyMode: params.get('reply') === 'canned' ? 'canned' : 'echo',
+    viewerEmail: params.get('viewer') || 'demo@example.com',
+    sigmaEnv: env === 'viewer' || env === 'explorer' ? env : 'author',
+  };
+};
+
+/**
+ * The plugin outside Sigma: App talks to an in-memory client with CSV
+ * history and a mock action chain. Drop a CSV anywhere to replace the history.
+ */
+const DemoApp: React.FC = () => {
+  const client = useMemo(
+    () => createDemoClient({ ...readUrlOptions(), historyCsv: sampleHistoryCsv, cannedReplies: CANNED_REPLIES }),
+    []
+  );
+
+  useEffect(() => () => client.destroy(), [client]);
+
+  // Dropped CSV files replace the history table
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => e.preventDefault();
+    const handleDrop = async (e: DragEvent) => {
+      const file = e.dataTransfer?.files[0];
+      if (!file) return;
+      e.preventDefault();
+      try {
+        client.loadHistory(await file.text());
+      } catch (error) {
+        console.error('Error loading demo history:', error);
+      }
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [client]);
+
+  return (
+    <SigmaClientProvider client={client}>
+      <div className="h-full w-full flex flex-col">
+        <DemoPanel client={client} />
+        <div className="flex-1 min-h-0">
+          <App />
+        </div>
+      </div>
+    </SigmaClientProvider>
+  );
+};
+
+// Demo Panel Component - mock action chain settings
+interface DemoPanelProps {
+  client: DemoClient;
+}
+
+const DemoPanel: React.FC<DemoPanelProps> = ({ client }) => {
+  const [chainOptions, setChainOptions] = useState(client.getChainOptions);
+
+  const update = (next: Partial<typeof chainOptions>) => {
+    client.setChainOptions(next);
+    setChainOptions(client.getChainOptions());
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      client.loadHistory(await file.text());
+    } catch (error) {
+      console.error('Error loading demo history:', error);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-2 text-xs bg-gray-900 text-gray-100">
+      <span className="font-semibold">Demo mode</span>
+      <label className="flex items-center gap-1">
+        History CSV
+        <input type="file" accept=".csv,text/csv" onChange={handleFile} className="text-xs" />
+      </label>
+      <label className="flex items-center gap-1">
+        Latency (ms)
+        <input
+          type="number"
+          min={0}
+          step={100}
+          value={chainOptions.latencyMs}
+          onChange={(e) => update({ latencyMs: Math.max(0, Number(e.target.value) || 0) })}
+          className="w-20 px-1 rounded text-gray-900"
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        Failure rate
+        <input
+          type="number"
+          min={0}
+          max={1}
+          step={0.1}
+          value={chainOptions.failureRate}
+          onChange={(e) => update({ failureRate: Math.min(Math.max(Number(e.target.value) || 0, 0), 1) })}
+          className="w-16 px-1 rounded text-gray-900"
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        Replies
+        <select
+          value={chainOptions.replyMode}
+          onChange={(e) => update({ replyMode: e.target.value as DemoReplyMode })}
+          className="px-1 rounded text-gray-900"
+        >
+          <option value="echo">Echo</option>
+          <option value="canned">Canned</option>
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default DemoApp;
@@ -0,0 +1,264 @@
+// src/demo/createDemoClient.ts
+
+import {
+  CustomPluginConfigOptions,
+  PluginInstance,
+  WorkbookElementColumns,
+  WorkbookElementData,
+  WorkbookVariable,
+} from '@sigmacomputing/plugin';
+import { csvToElementData } from './csv';
+
+// Ids the demo config points at instead of real workbook elements
+const HISTORY_ELEMENT_ID = 'demo-history';
+const PROMPT_VARIABLE_ID = 'demo-prompt';
+const SEND_ACTION_ID = 'demo-send';
+const CLEAR_ACTION_ID = 'demo-clear';
+
+// The action chain writes the user's row a moment before asking the model
+const USER_ROW_DELAY_MS = 300;
+
+export type DemoReplyMode = 'echo' | 'canned';
+
+export interface DemoChainOptions {
+  // Time between the user's row and the reply
+  latencyMs: number;
+  // Share of runs (0-1) that write the user's row but never reply
+  failureRate: number;
+  replyMode: DemoReplyMode;
+  // Replies used in turn in "canned" mode
+  cannedReplies: string[];
+}
+
+export interface DemoOptions extends DemoChainOptions {
+  historyCsv: string;
+  viewerEmail: string;
+  sigmaEnv: PluginInstance['sigmaEnv'];
+}
+
+export interface DemoClient extends PluginInstance {
+  loadHistory: (csvText: string) => void;
+  getChainOptions: () => DemoChainOptions;
+  setChainOptions: (options: Partial<DemoChainOptions>) => void;
+}
+
+// Editor panel settings, matched to CSV headers by name (case-insensitive)
+const COLUMN_HEADERS: Record<string, string[]> = {
+  idColumn: ['id'],
+  authorColumn: ['author'],
+  messageColumn: ['message'],
+  timestampColumn: ['timestamp'],
+  emailColumn: ['email'],
+  visibilityColumn: ['rls', 'visibility'],
+  sessionColumn: ['session', 'session id', 'thread'],
+  roleColumn: ['role'],
+};
+
+const createListeners = <T>() => {
+  const listeners = new Set<(value: T) => void>();
+  return {
+    add: (listener: (value: T) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    notify: (value: T) => listeners.forEach(listener => listener(value)),
+  };
+};
+
+const mapColumns = (data: WorkbookElementData): Record<string, string | undefined> => {
+  const headers = Object.keys(data);
+  return Object.fromEntries(Object.entries(COLUMN_HEADERS).map(([key, names]) => [
+    key,
+    headers.find(header => names.includes(header.trim().toLowerCase())),
+  ]));
+};
+
+const getColumns = (data: WorkbookElementData): WorkbookElementColumns =>
+  Object.fromEntries(Object.keys(data).map(name => [
+    name,
+    { id: name, name, columnType: name.toLowerCase() === 'timestamp' ? 'datetime' : 'text' },
+  ]));
+
+/**
+ * In-memory stand-in for the Sigma plugin client. The plugin's React hooks
+ * read everything through this object, so App runs unchanged outside Sigma:
+ * history comes from CSV, controls live in memory and the send action runs
+ * a mock action chain that appends the user's row and a reply.
+ */
+export const createDemoClient = (options: DemoOptions): DemoClient => {
+  let data = csvToElementData(options.historyCsv);
+  let chainOptions: DemoChainOptions = {
+    latencyMs: options.latencyMs,
+    failureRate: options.failureRate,
+    replyMode: options.replyMode,
+    cannedReplies: options.cannedReplies,
+  };
+  let config: Record<string, unknown> = {};
+  const variables = new Map<string, unknown>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let cannedIndex = 0;
+
+  const configListeners = createListeners<Record<string, unknown>>();
+  const dataListeners = createListeners<WorkbookElementData>();
+  const columnListeners = createListeners<WorkbookElementColumns>();
+  const variableListeners = new Map<string, ReturnType<typeof createListeners<WorkbookVariable>>>();
+
+  const setConfig = (next: Record<string, unknown>) => {
+    config = next;
+    configListeners.notify(config);
+  };
+
+  // Column mappings follow the loaded CSV; other settings keep their values
+  const applyColumnMappings = () => setConfig({
+    ...config,
+    ...mapColumns(data),
+    chatDataSource: HISTORY_ELEMENT_ID,
+    promptControl: PROMPT_VARIABLE_ID,
+    sendMessageAction: SEND_ACTION_ID,
+    clearChatAction: CLEAR_ACTION_ID,
+    currentUserEmail: options.viewerEmail,
+  });
+
+  const setData = (next: WorkbookElementData) => {
+    data = next;
+    dataListeners.notify(data);
+    columnListeners.notify(getColumns(data));
+  };
+
+  const toVariable = (id: string): WorkbookVariable =>
+    ({ name: id, defaultValue: { type: 'text', value: variables.get(id) ?? null } }) as WorkbookVariable;
+
+  const getVariableListeners = (id: string) => {
+    const existing = variableListeners.get(id);
+    if (existing) return existing;
+    const listeners = createListeners<WorkbookVariable>();
+    variableListeners.set(id, listeners);
+    return listeners;
+  };
+
+  const later = (callback: () => void, delay: number) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      callback();
+    }, delay);
+    timers.add(timer);
+  };
+
+  // Append one row; columns the CSV doesn't have are skipped
+  const appendRow = (values: Record<string, unknown>) => {
+    const columns = mapColumns(data);
+    const rowCount = Object.values(data)[0]?.length ?? 0;
+    const next: WorkbookElementData = {};
+    Object.entries(data).forEach(([header, cells]) => {
+      const key = Object.keys(columns).find(name => columns[name] === header);
+      next[header] = [...cells, key && key in values ? values[key] : null];
+    });
+    if (columns.idColumn) {
+      const ids = data[columns.idColumn].map(Number).filter(Number.isFinite);
+      next[columns.idColumn][rowCount] = String(Math.max(0, ...ids) + 1);
+    }
+    setData(next);
+  };
+
+  const getReply = (prompt: string): string => {
+    if (chainOptions.replyMode === 'canned' && chainOptions.cannedReplies.length > 0) {
+      const reply = chainOptions.cannedReplies[cannedIndex % chainOptions.cannedReplies.length];
+      cannedIndex++;
+      return reply;
+    }
+    return `You said: "${prompt}"`;
+  };
+
+  const runSendChain = () => {
+    const prompt = String(variables.get(PROMPT_VARIABLE_ID) ?? '');
+    if (!prompt.trim()) return;
+
+    later(() => {
+      appendRow({
+        authorColumn: options.viewerEmail,
+        messageColumn: prompt,
+        timestampColumn: new Date().toISOString(),
+        emailColumn: options.viewerEmail,
+        visibilityColumn: 'true',
+      });
+    }, USER_ROW_DELAY_MS);
+
+    later(() => {
+      if (Math.random() < chainOptions.failureRate) {
+        console.warn('Demo action chain failed on purpose (failure rate)');
+        return;
+      }
+      appendRow({
+        authorColumn: 'assistant',
+        messageColumn: getReply(prompt),
+        timestampColumn: new Date().toISOString(),
+        visibilityColumn: 'true',
+      });
+    }, USER_ROW_DELAY_MS + chainOptions.latencyMs);
+  };
+
+  const client: DemoClient = {
+    sigmaEnv: options.sigmaEnv,
+    config: {
+      get: () => config,
+      set: next => setConfig({ ...config, ...next }),
+      getKey: key => config[key as string] as never,
+      setKey: (key, value) => setConfig({ ...config, [key as string]: value }),
+      subscribe: listener => configListeners.add(listener),
+      // Sigma fills in each option's default until the author changes it
+      configureEditorPanel: (panelOptions: CustomPluginConfigOptions[]) => {
+        const defaults = Object.fromEntries(panelOptions
+          .filter(option => 'defaultValue' in option && option.defaultValue !== undefined)
+          .map(option => [option.name, (option as { defaultValue: unknown }).defaultValue]));
+        setConfig({ ...defaults, ...config });
+      },
+      getVariable: toVariable,
+      setVariable: (id, ...values) => {
+        variables.set(id, values[0]);
+        getVariableListeners(id).notify(toVariable(id));
+      },
+      getInteraction: () => [],
+      setInteraction: () => {},
+      triggerAction: id => {
+        if (id === SEND_ACTION_ID) runSendChain();
+        if (id === CLEAR_ACTION_ID) setData(Object.fromEntries(Object.keys(data).map(header => [header, []])));
+      },
+      registerEffect: () => () => {},
+      setLoadingState: () => {},
+      subscribeToWorkbookVariable: (id, callback) => getVariableListeners(id).add(callback),
+      subscribeToWorkbookInteraction: () => () => {},
+    },
+    elements: {
+      getElementColumns: async () => getColumns(data),
+      subscribeToElementColumns: (id, callback) => {
+        if (id !== HISTORY_ELEMENT_ID) return () => {};
+        callback(getColumns(data));
+        return columnListeners.add(callback);
+      },
+      subscribeToElementData: (id, callback) => {
+        if (id !== HISTORY_ELEMENT_ID) return () => {};
+        callback(data);
+        return dataListeners.add(callback);
+      },
+      // The whole CSV is already loaded
+      fetchMoreElementData: () => {},
+    },
+    destroy: () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    },
+    loadHistory: csvText => {
+      setData(csvToElementData(csvText));
+      applyColumnMappings();
+    },
+    getChainOptions: () => chainOptions,
+    setChainOptions: next => {
+      chainOptions = { ...chainOptions, ...next };
+    },
+  };
+
+  applyColumnMappings();
+  return client;
+};
@@ -0,0 +1,69 @@
+// src/demo/csv.ts
+
+import { WorkbookElementData } from '@sigmacomputing/plugin';
+
+/** Parse RFC 4180 CSV: quoted fields may hold commas, newlines and doubled quotes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Excel adds a byte order mark to UTF-8 exports
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Turn CSV text into column arrays keyed by header name, the shape Sigma
+ * hands to plugins. Empty cells become null like missing values in Sigma.
+ */
+export const csvToElementData = (text: string): WorkbookElementData => {
+  const [header = [], ...rows] = parseCsv(text);
+
+  return header.reduce<WorkbookElementData>((data, name, columnIndex) => {
+    data[name.trim()] = rows.map(row => {
+      const value = row[columnIndex];
+      return value === undefined || value === '' ? null : value;
+    });
+    return data;
+  }, {});
+};
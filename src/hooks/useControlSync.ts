@@ -0,0 +1,82 @@
+// src/hooks/useControlSync.ts
+
+import { useEffect, useCallback, useRef } from 'react';
+import { WorkbookVariable } from '@sigmacomputing/plugin';
+import { getVariableValue } from '../utils/sigma';
+
+interface Waiter {
+  expected: string;
+  resolve: (confirmed: boolean) => void;
+}
+
+// Sigma may trim or re-encode line endings when it stores the value
+const normalize = (value: string | undefined) => (value ?? '').replace(/\r\n/g, '\n').trim();
+
+/**
+ * Set a Sigma control and wait until the workbook reports the new value back.
+ * Resolves `true` once the control holds the value, or `false` if it hasn't
+ * after `timeoutMs`.
+ */
+export const useControlSync = (
+  variable: WorkbookVariable | undefined,
+  setVariable: ((value: string) => void) | undefined
+) => {
+  const value = getVariableValue(variable);
+  const valueRef = useRef(value);
+  const waitersRef = useRef<Waiter[]>([]);
+
+  // Resolve everyone waiting for the value the workbook just reported
+  useEffect(() => {
+    valueRef.current = value;
+    const current = normalize(value);
+    const [confirmed, waiting] = waitersRef.current.reduce<[Waiter[], Waiter[]]>(
+      ([done, pending], waiter) => waiter.expected === current
+        ? [[...done, waiter], pending]
+        : [done, [...pending, waiter]],
+      [[], []]
+    );
+    waitersRef.current = waiting;
+    confirmed.forEach(waiter => waiter.resolve(true));
+  }, [value]);
+
+  // Don't leave callers hanging if the plugin unmounts mid-send
+  useEffect(() => () => {
+    waitersRef.current.forEach(waiter => waiter.resolve(false));
+    waitersRef.current = [];
+  }, []);
+
+  const setAndConfirm = useCallback((nextValue: string, timeoutMs: number): Promise<boolean> => {
+    if (!setVariable) return Promise.resolve(false);
+
+    return new Promise<boolean>(resolve => {
+      const expected = normalize(nextValue);
+      let settled = false;
+
+      const waiter: Waiter = {
+        expected,
+        resolve: (confirmed) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timeout);
+          resolve(confirmed);
+        },
+      };
+
+      const timeout = setTimeout(() => {
+        waitersRef.current = waitersRef.current.filter(w => w !== waiter);
+        waiter.resolve(false);
+      }, timeoutMs);
+
+      waitersRef.current = [...waitersRef.current, waiter];
+      setVariable(nextValue);
+
+      // The control may already hold this value, in which case no update arrives
+      if (normalize(valueRef.current) === expected) {
+        waitersRef.current = waitersRef.current.filter(w => w !== waiter);
+        waiter.resolve(true);
+      }
+    });
+  }, [setVariable]);
+
+  return { value, setAndConfirm };
+};
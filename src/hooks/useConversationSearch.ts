@@ -0,0 +1,79 @@
+// src/hooks/useConversationSearch.ts
+
+import { useState, useCallback, useMemo } from 'react';
+import { ChatMessage } from '../types/chat.types';
+import { EMPTY_FILTERS, MessageFilters, filterMessages, findMatches } from '../utils/search';
+
+interface UseConversationSearchResult {
+  query: string;
+  setQuery: (query: string) => void;
+  filters: MessageFilters;
+  setFilters: (filters: MessageFilters) => void;
+  // Messages that pass the sender and date filters
+  filteredMessages: ChatMessage[];
+  // Indices into filteredMessages that match the query, oldest first
+  matches: number[];
+  // Position in `matches` of the selected result, -1 when there is none
+  activeMatch: number;
+  goToPreviousMatch: () => void;
+  goToNextMatch: () => void;
+  reset: () => void;
+}
+
+/**
+ * Search and filter state for one conversation. A new query starts at the
+ * most recent hit; previous moves back in time, next moves forward.
+ */
+export const useConversationSearch = (
+  messages: ChatMessage[],
+  displayTimeZone?: string
+): UseConversationSearchResult => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<MessageFilters>(EMPTY_FILTERS);
+  // Result picked with previous/next, remembered per search so a new query starts over
+  const [selection, setSelection] = useState<{ searchKey: string; index: number } | null>(null);
+
+  const filteredMessages = useMemo(
+    () => filterMessages(messages, filters, displayTimeZone),
+    [messages, filters, displayTimeZone]
+  );
+
+  const matches = useMemo(
+    () => findMatches(filteredMessages, query),
+    [filteredMessages, query]
+  );
+
+  const searchKey = JSON.stringify([query, filters]);
+  const activeMatch = selection?.searchKey === searchKey
+    ? Math.min(selection.index, matches.length - 1)
+    : matches.length - 1;
+
+  const goToPreviousMatch = useCallback(() => {
+    if (matches.length === 0) return;
+    setSelection({ searchKey, index: activeMatch <= 0 ? matches.length - 1 : activeMatch - 1 });
+  }, [matches.length, activeMatch, searchKey]);
+
+  const goToNextMatch = useCallback(() => {
+    if (matches.length === 0) return;
+    setSelection({ searchKey, index: activeMatch >= matches.length - 1 ? 0 : activeMatch + 1 });
+  }, [matches.length, activeMatch, searchKey]);
+
+  const reset = useCallback(() => {
+    setQuery('');
+    setFilters(EMPTY_FILTERS);
+    setSelection(null);
+  }, []);
+
+  return {
+    query,
+    setQuery,
+    filters,
+    setFilters,
+    filteredMessages,
+    matches,
+    activeMatch,
+    goToPreviousMatch,
+    goToNextMatch,
+    reset,
+  };
+};
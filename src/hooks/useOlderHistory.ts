@@ -0,0 +1,71 @@
+// src/hooks/useOlderHistory.ts
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// How long to wait for Sigma to deliver another page before assuming there is none
+export const OLDER_HISTORY_TIMEOUT_MS = 8000;
+
+// Rows per page delivered by usePaginatedElementData
+export const HISTORY_PAGE_SIZE = 25000;
+
+interface UseOlderHistoryResult {
+  hasOlder: boolean;
+  isLoadingOlder: boolean;
+  loadOlder: () => void;
+}
+
+/**
+ * Page further back through the history element on demand. Sigma doesn't
+ * tell us whether more rows exist, so a fetch that adds no rows within the
+ * timeout marks the history as complete, as does a partial last page. With `loadAll` every page is
+ * fetched right away - for tables sorted oldest first, where the latest
+ * messages sit on the last page.
+ */
+export const useOlderHistory = (
+  rowCount: number,
+  fetchMore: () => void,
+  loadAll = false,
+  timeoutMs = OLDER_HISTORY_TIMEOUT_MS
+): UseOlderHistoryResult => {
+  const [hasOlder, setHasOlder] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const previousRowCountRef = useRef(rowCount);
+
+  useEffect(() => {
+    const previousRowCount = previousRowCountRef.current;
+    previousRowCountRef.current = rowCount;
+
+    if (rowCount > previousRowCount) {
+      setIsLoadingOlder(false);
+    } else if (rowCount < previousRowCount) {
+      // Source swapped or filtered - start paging from scratch
+      setIsLoadingOlder(false);
+      setHasOlder(true);
+    }
+  }, [rowCount]);
+
+  useEffect(() => {
+    if (!isLoadingOlder) return;
+
+    const timeout = setTimeout(() => {
+      setIsLoadingOlder(false);
+      setHasOlder(false);
+    }, timeoutMs);
+    return () => clearTimeout(timeout);
+  }, [isLoadingOlder, timeoutMs]);
+
+  // Sigma always fills a page, so a partial one is the end of the table
+  const hasMorePages = hasOlder && rowCount > 0 && rowCount % HISTORY_PAGE_SIZE === 0;
+
+  const loadOlder = useCallback(() => {
+    if (isLoadingOlder || !hasMorePages) return;
+    setIsLoadingOlder(true);
+    fetchMore();
+  }, [isLoadingOlder, hasMorePages, fetchMore]);
+
+  useEffect(() => {
+    if (loadAll) loadOlder();
+  }, [loadAll, loadOlder]);
+
+  return { hasOlder: hasMorePages, isLoadingOlder, loadOlder };
+};
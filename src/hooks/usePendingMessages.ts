@@ -0,0 +1,63 @@
+// src/hooks/usePendingMessages.ts
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage, MessageStatus } from '../types/chat.types';
+import { reconcilePendingMessages } from '../utils/pendingMessages';
+
+interface UsePendingMessagesResult {
+  pendingMessages: ChatMessage[];
+  addPendingMessage: (content: string, sessionId?: string) => ChatMessage;
+  setPendingStatus: (messageId: string, status: MessageStatus) => void;
+  removePendingMessage: (messageId: string) => void;
+}
+
+/**
+ * Local echoes of messages the viewer sent, kept until the matching row
+ * shows up in the history table.
+ */
+export const usePendingMessages = (
+  storedMessages: ChatMessage[],
+  currentUserEmail?: string
+): UsePendingMessagesResult => {
+  const [pendingMessages, setPendingMessages] = useState<ChatMessage[]>([]);
+  // Rows that were already in the table; only rows new since then can confirm an echo
+  const knownIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const newMessages = storedMessages.filter(message => !knownIdsRef.current.has(message.id));
+    if (newMessages.length === 0) return;
+
+    newMessages.forEach(message => knownIdsRef.current.add(message.id));
+    setPendingMessages(prev => {
+      const next = reconcilePendingMessages(prev, newMessages, currentUserEmail);
+      return next.length === prev.length ? prev : next;
+    });
+  }, [storedMessages, currentUserEmail]);
+
+  const addPendingMessage = useCallback((content: string, sessionId?: string) => {
+    const message: ChatMessage = {
+      id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      content,
+      sender: 'user',
+      timestamp: new Date(),
+      email: currentUserEmail || undefined,
+      authorId: currentUserEmail ? currentUserEmail.toLowerCase() : undefined,
+      sessionId,
+      status: 'pending',
+    };
+    setPendingMessages(prev => [...prev, message]);
+    return message;
+  }, [currentUserEmail]);
+
+  const setPendingStatus = useCallback((messageId: string, status: MessageStatus) => {
+    setPendingMessages(prev => prev.map(message =>
+      message.id === messageId ? { ...message, status } : message
+    ));
+  }, []);
+
+  const removePendingMessage = useCallback((messageId: string) => {
+    setPendingMessages(prev => prev.filter(message => message.id !== messageId));
+  }, []);
+
+  return { pendingMessages, addPendingMessage, setPendingStatus, removePendingMessage };
+};
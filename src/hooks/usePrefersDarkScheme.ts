@@ -0,0 +1,6 @@
+// src/hooks/usePrefersDarkScheme.ts
+
+import { useMediaQuery } from './useMediaQuery';
+
+/** Whether the viewer's OS or browser asks for a dark color scheme. Updates live. */
+export const usePrefersDarkScheme = (): boolean => useMediaQuery('(prefers-color-scheme: dark)');
@@ -0,0 +1,87 @@
+// src/hooks/useResponseTimeout.ts
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage } from '../types/chat.types';
+
+interface UseResponseTimeoutOptions {
+  // Last message in the conversation; we wait while it is the user's or an
+  // answer the action chain is still writing
+  lastMessage?: ChatMessage;
+  // When this plugin last handed a prompt to the action chain
+  lastSentAt?: Date;
+  // 0 or less disables the timeout
+  timeoutMs: number;
+}
+
+interface UseResponseTimeoutResult {
+  isWaiting: boolean;
+  isTimedOut: boolean;
+  isDismissed: boolean;
+  dismiss: () => void;
+}
+
+/**
+ * Track how long we've been waiting for the assistant to answer the last
+ * prompt. The wait starts at the real send time - the later of the row's
+ * timestamp and our own send time - so re-renders don't restart it. An
+ * unanswered prompt stored before this view opened isn't waited on unless
+ * we've sent one since; a stalled answer from back then is timed from now.
+ * A streaming answer restarts the wait every time its content grows.
+ */
+export const useResponseTimeout = ({
+  lastMessage,
+  lastSentAt,
+  timeoutMs,
+}: UseResponseTimeoutOptions): UseResponseTimeoutResult => {
+  const [timedOutMessageId, setTimedOutMessageId] = useState<string | null>(null);
+  const [dismissedMessageId, setDismissedMessageId] = useState<string | null>(null);
+  const [mountedAt] = useState(() => Date.now());
+
+  const isRecent = lastMessage !== undefined &&
+    (lastSentAt !== undefined || lastMessage.timestamp.getTime() >= mountedAt);
+  const isWaiting = lastMessage !== undefined && (
+    (lastMessage.sender === 'user' && lastMessage.status !== 'failed' && isRecent) ||
+    (lastMessage.sender === 'assistant' && Boolean(lastMessage.isGenerating))
+  );
+
+  // When the streaming answer last grew
+  const progressKey = isWaiting && lastMessage.isGenerating ? `${lastMessage.id}:${lastMessage.content.length}` : null;
+  const progressRef = useRef<{ key: string; at: number } | null>(null);
+  if (progressKey !== null && progressRef.current?.key !== progressKey) {
+    progressRef.current = { key: progressKey, at: Date.now() };
+  }
+  const lastProgressAt = progressKey !== null ? progressRef.current?.at ?? 0 : 0;
+
+  const waitingMessageId = isWaiting ? lastMessage.id : null;
+  const waitStartedAt = isWaiting
+    ? Math.max(lastMessage.timestamp.getTime(), lastSentAt?.getTime() ?? 0, mountedAt, lastProgressAt)
+    : 0;
+
+  useEffect(() => {
+    if (waitingMessageId === null || timeoutMs <= 0) return;
+
+    const remaining = waitStartedAt + timeoutMs - Date.now();
+    if (remaining <= 0) {
+      setTimedOutMessageId(waitingMessageId);
+      return;
+    }
+    // A restarted wait (the answer grew again) takes back an earlier timeout
+    setTimedOutMessageId(current => (current === waitingMessageId ? null : current));
+
+    const timeout = setTimeout(() => setTimedOutMessageId(waitingMessageId), remaining);
+    return () => clearTimeout(timeout);
+  }, [waitingMessageId, waitStartedAt, timeoutMs]);
+
+  const dismiss = useCallback(() => {
+    setDismissedMessageId(waitingMessageId);
+  }, [waitingMessageId]);
+
+  const isTimedOut = waitingMessageId !== null && timeoutMs > 0 && timedOutMessageId === waitingMessageId;
+
+  return {
+    isWaiting,
+    isTimedOut,
+    isDismissed: isTimedOut && dismissedMessageId === waitingMessageId,
+    dismiss,
+  };
+};
@@ -0,0 +1,91 @@
+// src/hooks/useReveal.ts
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RevealMode } from '../types/chat.types';
+import { RandomSource, RevealClock, SYSTEM_CLOCK, getRevealStep } from '../utils/reveal';
+
+// Pause after the last chunk before the cursor disappears
+const REVEAL_END_DELAY_MS = 200;
+
+interface UseRevealOptions {
+  text: string;
+  mode: RevealMode;
+  // False shows the whole text straight away
+  enabled: boolean;
+  // Multiplier on the reveal pace; 2 is twice as fast
+  speed?: number;
+  random?: RandomSource;
+  clock?: RevealClock;
+}
+
+interface UseRevealResult {
+  revealedText: string;
+  // Number of chunks shown so far
+  step: number;
+  isRevealing: boolean;
+  finish: () => void;
+}
+
+/**
+ * Reveal text chunk by chunk in the given mode. When the text grows in place
+ * (an answer streamed into the same row) only the new part is revealed; any
+ * other change is shown as is. The random source and clock can be injected
+ * so a reveal plays out the same way every time.
+ */
+export const useReveal = ({
+  text,
+  mode,
+  enabled,
+  speed = 1,
+  random = Math.random,
+  clock = SYSTEM_CLOCK,
+}: UseRevealOptions): UseRevealResult => {
+  const [revealedLength, setRevealedLength] = useState(enabled ? 0 : text.length);
+  const [step, setStep] = useState(0);
+  const [isRevealing, setIsRevealing] = useState(enabled);
+  const previousTextRef = useRef(text);
+
+  useEffect(() => {
+    const previousText = previousTextRef.current;
+    previousTextRef.current = text;
+    if (text === previousText) return;
+
+    if (mode !== 'Instant' && text.startsWith(previousText)) {
+      // Streamed in place - carry on from what is already on screen
+      setIsRevealing(true);
+    } else {
+      setRevealedLength(text.length);
+      setIsRevealing(false);
+    }
+  }, [text, mode]);
+
+  useEffect(() => {
+    if (!isRevealing) return;
+
+    if (revealedLength >= text.length) {
+      // Animation complete
+      const handle = clock.setTimeout(() => setIsRevealing(false), REVEAL_END_DELAY_MS);
+      return () => clock.clearTimeout(handle);
+    }
+
+    const { length, delay } = getRevealStep(text.slice(revealedLength), mode, random);
+    const handle = clock.setTimeout(() => {
+      setRevealedLength(previous => previous + length);
+      setStep(previous => previous + 1);
+    }, delay / (speed > 0 ? speed : 1));
+
+    return () => clock.clearTimeout(handle);
+  }, [revealedLength, isRevealing, text, mode, speed, random, clock]);
+
+  const finish = useCallback(() => {
+    setRevealedLength(text.length);
+    setIsRevealing(false);
+  }, [text.length]);
+
+  return {
+    revealedText: text.slice(0, revealedLength),
+    step,
+    isRevealing,
+    finish,
+  };
+};
@@ -0,0 +1,136 @@
+// src/hooks/useThreads.ts
+
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { ChatMessage, ChatThread } from '../types/chat.types';
+import { buildThreads, createSessionId } from '../utils/threads';
+
+interface UseThreadsOptions {
+  messages: ChatMessage[];
+  // False when no Session/Thread ID column is mapped
+  enabled: boolean;
+  // Key under which read state is persisted (one per chat history element)
+  storageKey: string;
+  // Current value of the session control, if one is configured
+  sessionValue?: string;
+  setSessionValue?: (sessionId: string) => void;
+}
+
+interface UseThreadsResult {
+  threads: ChatThread[];
+  activeThreadId?: string;
+  threadMessages: ChatMessage[];
+  selectThread: (threadId: string) => void;
+  startNewThread: () => void;
+}
+
+const loadLastSeen = (storageKey: string): Record<string, number> => {
+  try {
+    const stored = window.localStorage.getItem(storageKey);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    // Storage can be unavailable inside the Sigma iframe
+    return {};
+  }
+};
+
+export const useThreads = ({
+  messages,
+  enabled,
+  storageKey,
+  sessionValue,
+  setSessionValue,
+}: UseThreadsOptions): UseThreadsResult => {
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [lastSeen, setLastSeen] = useState<Record<string, number>>(() => loadLastSeen(storageKey));
+  const initializedRef = useRef(false);
+
+  const derivedThreads = useMemo(
+    () => (enabled ? buildThreads(messages, lastSeen) : []),
+    [enabled, messages, lastSeen]
+  );
+
+  // Explicit selection wins, then the session control, then the latest thread
+  const activeThreadId = enabled
+    ? selectedThreadId ?? (sessionValue || derivedThreads[0]?.id)
+    : undefined;
+
+  // With nothing selected and a blank session control the latest thread is
+  // shown; write it to the control once so new rows land in that thread
+  const syncedFallbackRef = useRef(false);
+  useEffect(() => {
+    if (syncedFallbackRef.current || !enabled || selectedThreadId !== null || sessionValue) return;
+    const fallbackThreadId = derivedThreads[0]?.id;
+    if (!fallbackThreadId) return;
+    syncedFallbackRef.current = true;
+    setSessionValue?.(fallbackThreadId);
+  }, [enabled, selectedThreadId, sessionValue, derivedThreads, setSessionValue]);
+
+  // A freshly started conversation has no rows yet but should still be listed
+  const threads = useMemo(() => {
+    if (activeThreadId === undefined || derivedThreads.some(t => t.id === activeThreadId)) {
+      return derivedThreads;
+    }
+    const placeholder: ChatThread = {
+      id: activeThreadId,
+      title: 'New conversation',
+      lastMessageAt: new Date(),
+      messageCount: 0,
+      unreadCount: 0,
+    };
+    return [placeholder, ...derivedThreads];
+  }, [derivedThreads, activeThreadId]);
+
+  const threadMessages = useMemo(
+    () => (enabled ? messages.filter(m => (m.sessionId ?? '') === activeThreadId) : messages),
+    [enabled, messages, activeThreadId]
+  );
+
+  // Record what the viewer has seen. Threads already present on first load
+  // start as read; threads that show up later start fully unread.
+  useEffect(() => {
+    if (!enabled || derivedThreads.length === 0) return;
+
+    setLastSeen(prev => {
+      const next = { ...prev };
+      let changed = false;
+
+      derivedThreads.forEach(thread => {
+        const latest = thread.lastMessageAt.getTime();
+        if (thread.id === activeThreadId) {
+          if (next[thread.id] !== latest) {
+            next[thread.id] = latest;
+            changed = true;
+          }
+        } else if (next[thread.id] === undefined) {
+          next[thread.id] = initializedRef.current ? 0 : latest;
+          changed = true;
+        }
+      });
+
+      initializedRef.current = true;
+      return changed ? next : prev;
+    });
+  }, [enabled, derivedThreads, activeThreadId]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(lastSeen));
+    } catch {
+      // Ignore - read state just won't survive a reload
+    }
+  }, [storageKey, lastSeen]);
+
+  const selectThread = useCallback((threadId: string) => {
+    setSelectedThreadId(threadId);
+    // Keep the control in sync so follow-up prompts land in this thread
+    setSessionValue?.(threadId);
+  }, [setSessionValue]);
+
+  const startNewThread = useCallback(() => {
+    const sessionId = createSessionId();
+    setSelectedThreadId(sessionId);
+    setSessionValue?.(sessionId);
+  }, [setSessionValue]);
+
+  return { threads, activeThreadId, threadMessages, selectThread, startNewThread };
+};
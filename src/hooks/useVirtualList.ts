@@ -0,0 +1,193 @@
+// src/hooks/useVirtualList.ts
+
+import { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
+
+interface UseVirtualListOptions {
+  // Stable key per row, in render order
+  keys: string[];
+  // The scrolling element that contains the list
+  scrollRef: React.RefObject<HTMLElement>;
+  // Height guess for rows that haven't been rendered yet
+  estimatedRowHeight: number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+}
+
+interface UseVirtualListResult {
+  // Rows to render: keys.slice(startIndex, endIndex)
+  startIndex: number;
+  endIndex: number;
+  // Space standing in for the rows that aren't rendered
+  paddingTop: number;
+  paddingBottom: number;
+  // Callback ref for a rendered row; reports its height back to the list
+  measureRow: (key: string) => (element: HTMLElement | null) => void;
+  // Bring a row into the middle of the viewport, rendering it first if needed
+  scrollToIndex: (index: number) => void;
+}
+
+// Index of the first row whose bottom edge is below `offset`
+const findRowAt = (offsets: number[], offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offsets[mid + 1] <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * Window a long list of variable-height rows. Only rows near the viewport are
+ * rendered; everything else is replaced by padding based on measured (or
+ * estimated) heights. Rows keep their measurements by key, so prepending
+ * older rows doesn't throw away what we know about the newer ones.
+ */
+export const useVirtualList = ({
+  keys,
+  scrollRef,
+  estimatedRowHeight,
+  overscan = 600,
+}: UseVirtualListOptions): UseVirtualListResult => {
+  const heightsRef = useRef<Map<string, number>>(new Map());
+  const elementsRef = useRef<Map<string, HTMLElement>>(new Map());
+  const refCallbacksRef = useRef<Map<string, (element: HTMLElement | null) => void>>(new Map());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  // Row to center once it has been rendered
+  const pendingScrollKeyRef = useRef<string | null>(null);
+  // Snapshot of heightsRef that drives re-layout
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: window.innerHeight });
+
+  // Track scroll position and size of the scrolling element
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    const update = () => {
+      setViewport(prev =>
+        prev.scrollTop === container.scrollTop && prev.height === container.clientHeight
+          ? prev
+          : { scrollTop: container.scrollTop, height: container.clientHeight }
+      );
+    };
+
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(container);
+
+    return () => {
+      container.removeEventListener('scroll', update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollRef]);
+
+  // One observer for all rendered rows; a changed height re-runs the layout
+  useEffect(() => {
+    const observer = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        const key = element.dataset.rowKey;
+        if (key === undefined) return;
+        const height = element.getBoundingClientRect().height;
+        if (heightsRef.current.get(key) !== height) {
+          heightsRef.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) setHeights(new Map(heightsRef.current));
+    });
+
+    observerRef.current = observer;
+    elementsRef.current.forEach(element => observer.observe(element));
+
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  const measureRow = useCallback((key: string) => {
+    let callback = refCallbacksRef.current.get(key);
+    if (!callback) {
+      callback = (element: HTMLElement | null) => {
+        const previous = elementsRef.current.get(key);
+        if (previous && previous !== element) {
+          observerRef.current?.unobserve(previous);
+          elementsRef.current.delete(key);
+        }
+        if (element) {
+          element.dataset.rowKey = key;
+          elementsRef.current.set(key, element);
+          observerRef.current?.observe(element);
+        } else {
+          refCallbacksRef.current.delete(key);
+        }
+      };
+      refCallbacksRef.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  // offsets[i] is the top of row i; offsets[keys.length] is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, index) => {
+      result[index + 1] = result[index] + (heights.get(key) ?? estimatedRowHeight);
+    });
+    return result;
+  }, [keys, estimatedRowHeight, heights]);
+
+  const layoutRef = useRef({ keys, offsets });
+  useLayoutEffect(() => {
+    layoutRef.current = { keys, offsets };
+  }, [keys, offsets]);
+
+  const scrollToIndex = useCallback((index: number) => {
+    const container = scrollRef.current;
+    const { keys: currentKeys, offsets: currentOffsets } = layoutRef.current;
+    const key = currentKeys[index];
+    if (!container || key === undefined) return;
+
+    const element = elementsRef.current.get(key);
+    if (element) {
+      element.scrollIntoView({ block: 'center' });
+      return;
+    }
+
+    // Jump to the estimated position; the layout effect below centers it once rendered
+    pendingScrollKeyRef.current = key;
+    container.scrollTo({ top: currentOffsets[index] - container.clientHeight / 2, behavior: 'instant' });
+  }, [scrollRef]);
+
+  useLayoutEffect(() => {
+    const key = pendingScrollKeyRef.current;
+    const element = key === null ? undefined : elementsRef.current.get(key);
+    if (element) {
+      pendingScrollKeyRef.current = null;
+      element.scrollIntoView({ block: 'center' });
+    }
+  });
+
+  const totalHeight = offsets[keys.length];
+  const startIndex = keys.length === 0 ? 0 : findRowAt(offsets, viewport.scrollTop - overscan);
+  const endIndex = keys.length === 0
+    ? 0
+    : Math.min(keys.length, findRowAt(offsets, viewport.scrollTop + viewport.height + overscan) + 1);
+
+  return {
+    startIndex,
+    endIndex,
+    paddingTop: offsets[startIndex],
+    paddingBottom: totalHeight - offsets[endIndex],
+    measureRow,
+    scrollToIndex,
+  };
+};
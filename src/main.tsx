@@ -3,8 +3,31 @@ import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
\ No newline at end of file
+// Standalone demo outside Sigma: add ?demo to the URL during development, or
+// build with VITE_DEMO_MODE=true
+const isDemoMode = (import.meta.env.DEV && new URLSearchParams(window.location.search).has('demo')) ||
+  import.meta.env.VITE_DEMO_MODE === 'true'
+
+const root = ReactDOM.createRoot(document.getElementById('root')!)
+
+if (isDemoMode) {
+  // Loaded on demand so the demo stand-in stays out of the plugin bundle
+  import('./demo/DemoApp.tsx')
+    .then(({ default: DemoApp }) => {
+      root.render(
+        <React.StrictMode>
+          <DemoApp />
+        </React.StrictMode>,
+      )
+    })
+    .catch((error) => {
+      console.error('Error loading demo mode:', error)
+      root.render(<p className="p-4 text-sm text-red-600">Demo mode could not be loaded. Reload the page to try again.</p>)
+    })
+} else {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  )
+}
@@ -1,11 +1,53 @@
 // src/types/chat.types.ts
 
+// A source the assistant used: a table name or a URL
+export interface MessageSource {
+  label: string;
+  url?: string;
+}
+
+// Optional details the action chain records alongside an answer
+export interface MessageMetadata {
+  model?: string;
+  latencyMs?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  sources?: MessageSource[];
+}
+
+// Thumbs up / down rating on an assistant answer
+export type FeedbackRating = 'up' | 'down';
+
+// Delivery state of a message the viewer sent from this plugin
+export type MessageStatus = 'pending' | 'sent' | 'failed';
+
+// 'user' is the current viewer; 'other' is any other human in a shared thread
+export type MessageSender = 'user' | 'assistant' | 'other';
+
 export interface ChatMessage {
   id: string;
   content: string;
-  sender: 'user' | 'assistant';
+  sender: MessageSender;
   timestamp: Date;
+  timestampUnknown?: boolean; // Missing/unparsable in Sigma; timestamp is borrowed from a neighbour
   email?: string; // Optional email field from Sigma data
+  authorName?: string; // Display name from the Author column
+  authorId?: string; // Stable identity of the author (email, else author name)
+  sessionId?: string; // Session/thread the message belongs to, if mapped
+  status?: MessageStatus; // Only set on local echoes not yet in the history table
+  metadata?: MessageMetadata; // Model, latency, token and source columns, if mapped
+  feedback?: FeedbackRating; // Stored rating from the feedback column, if mapped
+  suggestions?: string[]; // Follow-up prompts offered under an assistant answer
+  isGenerating?: boolean; // Assistant row still being written, per the completion column
+}
+
+// A conversation thread derived from the Session/Thread ID column
+export interface ChatThread {
+  id: string;
+  title: string;
+  lastMessageAt: Date;
+  messageCount: number;
+  unreadCount: number;
 }
 
 export interface ChatConfig {
@@ -32,12 +74,60 @@ export interface ColorConfig {
   dayStampTextColor: string;
 }
 
+export type ChartType = 'bar' | 'line' | 'pie';
+
+export type ChartRow = Record<string, string | number | null>;
+
+// Chart spec an assistant message can embed in a ```chart fenced block
+export interface ChartSpec {
+  type: ChartType;
+  data: ChartRow[];
+  x: string; // Field used for categories / the x axis
+  y: string; // Numeric field used for values
+  title?: string;
+}
+
+// How a fresh assistant reply appears on screen
+export type RevealMode = 'Typewriter' | 'Word fade' | 'Line by line' | 'Instant';
+
+// Progress of handing a prompt to the workbook: set the control, then fire the action
+export type SendPhase = 'idle' | 'syncing' | 'triggering' | 'failed';
+
+export interface SendState {
+  phase: SendPhase;
+  error?: string;
+}
+
 export interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (message: string) => void | Promise<void>;
   onClearChat?: () => void | Promise<void>;
+  onRetryMessage?: (messageId: string) => void | Promise<void>;
+  onDeleteMessage?: (messageId: string) => void;
   isLoading?: boolean;
   placeholder?: string;
   showUserEmail?: boolean;
   colorConfig?: ColorConfig;
+  threads?: ChatThread[];
+  activeThreadId?: string;
+  onSelectThread?: (threadId: string) => void;
+  onNewThread?: () => void | Promise<void>;
+  responseTimeoutMs?: number; // Give up waiting for a reply after this long (0 = never)
+  lastSentAt?: Date; // When this plugin last triggered the send action in the active thread
+  maxPromptLength?: number; // Longest prompt the Sigma control accepts (0 = unlimited)
+  sendState?: SendState;
+  clearError?: string | null; // Shown when the Clear Chat Action left the rows in place
+  onDismissClearError?: () => void;
+  onFeedback?: (messageId: string, rating: FeedbackRating, comment?: string) => void | Promise<void>;
+  timeFormat?: string; // date-fns pattern for message times
+  displayTimeZone?: string; // IANA zone for displayed times (browser time when unset)
+  onLoadOlder?: () => void; // Fetch the next page of history when scrolled to the top
+  hasOlderMessages?: boolean;
+  isLoadingOlder?: boolean;
+  showSearch?: boolean; // Search and filter bar in the header
+  showExport?: boolean; // Export menu in the header
+  exportTitle?: string; // Heading for exports, usually the workbook element name
+  revealMode?: RevealMode; // How new assistant replies appear
+  revealSpeed?: number; // Reveal pace multiplier (2 = twice as fast)
+  starterPrompts?: string[]; // Chips offered while the conversation is empty
 }
\ No newline at end of file
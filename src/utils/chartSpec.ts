@@ -0,0 +1,101 @@
+// src/utils/chartSpec.ts
+
+import { ChartRow, ChartSpec, ChartType } from '../types/chat.types';
+
+const CHART_TYPES: ChartType[] = ['bar', 'line', 'pie'];
+
+export type ChartSpecResult =
+  | { spec: ChartSpec; error?: undefined; rows?: undefined }
+  | { spec?: undefined; error: string; rows?: ChartRow[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Keep only scalar cells so the fallback table can always render them
+const toRows = (data: unknown[]): ChartRow[] =>
+  data.filter(isRecord).map(row => {
+    const result: ChartRow = {};
+    Object.entries(row).forEach(([key, value]) => {
+      result[key] = typeof value === 'number' || typeof value === 'string' || value === null
+        ? value
+        : JSON.stringify(value);
+    });
+    return result;
+  });
+
+/**
+ * Whether a fenced code block should be treated as a chart.
+ * `chart` blocks always are; `json` blocks only when they look like a spec.
+ */
+export const isChartBlock = (language: string | undefined, code: string): boolean => {
+  if (language === 'chart') return true;
+  if (language !== 'json') return false;
+  return /"type"\s*:\s*"(bar|line|pie)"/.test(code) && /"data"\s*:/.test(code);
+};
+
+/**
+ * Parse and validate a chart spec from the body of a fenced block.
+ * Returns the spec, or an error plus whatever rows could be recovered for the
+ * table fallback.
+ */
+export const parseChartSpec = (code: string): ChartSpecResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(code);
+  } catch {
+    return { error: 'Chart data is not valid JSON' };
+  }
+
+  if (!isRecord(raw)) {
+    return { error: 'Chart spec must be a JSON object' };
+  }
+
+  const rows = Array.isArray(raw.data) ? toRows(raw.data) : undefined;
+  if (!rows || rows.length === 0) {
+    return { error: 'Chart spec has no data rows' };
+  }
+
+  const type = raw.type;
+  if (typeof type !== 'string' || !CHART_TYPES.includes(type as ChartType)) {
+    return { error: `Unsupported chart type "${String(type)}"`, rows };
+  }
+
+  const x = raw.x;
+  const y = raw.y;
+  if (typeof x !== 'string' || typeof y !== 'string') {
+    return { error: 'Chart spec needs "x" and "y" fields', rows };
+  }
+
+  if (!rows.some(row => x in row)) {
+    return { error: `Field "${x}" is missing from the data`, rows };
+  }
+
+  // Coerce values to numbers; a spec without any numeric value cannot be drawn
+  const data = rows.map(row => ({ ...row, [y]: toNumber(row[y]) }));
+  if (!data.some(row => row[y] !== null)) {
+    return { error: `Field "${y}" has no numeric values`, rows };
+  }
+
+  if (type === 'pie' && data.some(row => ((row[y] as number | null) ?? 0) < 0)) {
+    return { error: 'Pie charts cannot show negative values', rows };
+  }
+
+  return {
+    spec: {
+      type: type as ChartType,
+      data,
+      x,
+      y,
+      title: typeof raw.title === 'string' ? raw.title : undefined,
+    },
+  };
+};
@@ -0,0 +1,108 @@
+// src/utils/colors.ts
+
+import * as d3 from 'd3';
+import { ColorConfig } from '../types/chat.types';
+
+/**
+ * Build a categorical palette from the configured theme.
+ * Starts with the user bubble and send button colors, then walks the hue
+ * wheel from the first one so every series stays related to the theme.
+ * Colors are darkened or lightened until they reach 3:1 on the assistant bubble.
+ */
+export const getChartPalette = (colorConfig: ColorConfig, count: number): string[] => {
+  const seeds = [colorConfig.userBubbleColor, colorConfig.buttonBackgroundColor]
+    .map(color => d3.hsl(color))
+    .filter(color => !Number.isNaN(color.h));
+
+  const base = seeds[0] ?? d3.hsl('#007AFF');
+  // Charts sit on the assistant bubble, so every series must stand out from it
+  const visible = (color: d3.HSLColor) =>
+    ensureContrast(color.formatHex(), colorConfig.assistantBubbleColor, MIN_GRAPHIC_CONTRAST_RATIO);
+  const palette = Array.from(new Set(seeds.map(visible)));
+
+  for (let i = 1; palette.length < count && i <= count * 4; i++) {
+    const next = base.copy();
+    // Golden angle keeps neighbouring hues far apart
+    next.h = (base.h + i * 137.508) % 360;
+    next.s = Math.max(0.45, Math.min(0.85, base.s));
+    next.l = Math.max(0.4, Math.min(0.6, base.l));
+    const color = visible(next);
+    if (!palette.includes(color)) palette.push(color);
+  }
+
+  return Array.from({ length: count }, (_, i) => palette[i % palette.length]);
+};
+
+// Stable 32-bit hash so an author keeps the same color across renders and reloads
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const AUTHOR_PALETTE_SIZE = 8;
+
+/**
+ * Deterministic bubble color for another participant. Drawn from the theme
+ * palette, skipping the first entry (the viewer's own bubble color).
+ */
+export const getAuthorColor = (authorId: string, colorConfig: ColorConfig): string => {
+  const palette = getChartPalette(colorConfig, AUTHOR_PALETTE_SIZE + 1).slice(1);
+  return palette[hashString(authorId.toLowerCase()) % palette.length];
+};
+
+// Relative luminance as defined by WCAG 2.x
+export const getRelativeLuminance = (color: string): number => {
+  const rgb = d3.rgb(color);
+  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// Black or white, whichever reads better on the given background
+export const getReadableTextColor = (background: string): string =>
+  getRelativeLuminance(background) > 0.179 ? '#000000' : '#FFFFFF';
+
+/** WCAG contrast ratio between two colors, from 1 to 21. Alpha is ignored. */
+export const getContrastRatio = (foreground: string, background: string): number => {
+  const [lighter, darker] = [getRelativeLuminance(foreground), getRelativeLuminance(background)]
+    .sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// WCAG AA for normal-size text
+export const MIN_CONTRAST_RATIO = 4.5;
+
+// WCAG AA for graphical objects such as chart bars and lines
+export const MIN_GRAPHIC_CONTRAST_RATIO = 3;
+
+/**
+ * The closest color to `foreground` (same hue and saturation, lightness moved
+ * towards black or white) that reaches the target contrast on `background`.
+ */
+export const ensureContrast = (
+  foreground: string,
+  background: string,
+  minRatio = MIN_CONTRAST_RATIO
+): string => {
+  if (getContrastRatio(foreground, background) >= minRatio) return foreground;
+
+  const target = getReadableTextColor(background);
+  const base = d3.hsl(foreground);
+  if (Number.isNaN(base.l)) return target;
+
+  const towardsWhite = target === '#FFFFFF';
+  for (let step = 1; step <= 20; step++) {
+    const candidate = base.copy();
+    candidate.l = towardsWhite
+      ? base.l + (1 - base.l) * (step / 20)
+      : base.l * (1 - step / 20);
+    const hex = candidate.formatHex();
+    if (getContrastRatio(hex, background) >= minRatio) return hex;
+  }
+  return target;
+};
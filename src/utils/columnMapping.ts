@@ -0,0 +1,150 @@
+// src/utils/columnMapping.ts
+
+import { ValueType, WorkbookElementColumns } from '@sigmacomputing/plugin';
+
+// Editor panel settings that can be filled in from the element's columns
+export type MappableColumnKey = 'authorColumn' | 'messageColumn' | 'timestampColumn' | 'idColumn' | 'emailColumn';
+
+export type ColumnMapping = Partial<Record<MappableColumnKey, string>>;
+
+interface ColumnRule {
+  key: MappableColumnKey;
+  label: string;
+  // Normalized names (lowercase, letters and digits only), best first
+  names: string[];
+  // Types that suit the field; anything else is reported as a mismatch
+  types: ValueType[];
+  // Take the first unclaimed column of the preferred type when no name matches
+  fallbackType?: ValueType;
+  // Skip ID-like names ("Message ID", "uuid") when matching names partially
+  skipIdLike?: boolean;
+}
+
+// Order matters: within each pass, earlier fields claim their column first
+const COLUMN_RULES: ColumnRule[] = [
+  {
+    key: 'messageColumn',
+    label: 'Message',
+    names: ['message', 'content', 'text', 'body', 'msg', 'chatmessage', 'prompt', 'response'],
+    types: ['text', 'variant'],
+    skipIdLike: true,
+  },
+  {
+    key: 'emailColumn',
+    label: 'Email',
+    names: ['email', 'useremail', 'authoremail', 'senderemail', 'emailaddress'],
+    types: ['text', 'link'],
+    skipIdLike: true,
+  },
+  {
+    key: 'authorColumn',
+    label: 'Author',
+    names: ['author', 'sender', 'from', 'role', 'speaker', 'user', 'username', 'name', 'createdby'],
+    types: ['text', 'variant'],
+    skipIdLike: true,
+  },
+  {
+    key: 'timestampColumn',
+    label: 'Timestamp',
+    names: ['timestamp', 'createdat', 'sentat', 'time', 'datetime', 'date', 'created', 'ts'],
+    types: ['datetime'],
+    fallbackType: 'datetime',
+  },
+  {
+    key: 'idColumn',
+    label: 'ID',
+    names: ['id', 'messageid', 'msgid', 'rowid', 'uuid'],
+    types: ['text', 'number', 'integer'],
+  },
+];
+
+export const MAPPABLE_COLUMN_LABELS: Record<MappableColumnKey, string> = Object.fromEntries(
+  COLUMN_RULES.map(rule => [rule.key, rule.label])
+) as Record<MappableColumnKey, string>;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isIdLike = (normalized: string) => normalized.endsWith('id') || normalized.includes('uuid');
+
+type NameRank = (rule: ColumnRule, normalized: string) => number;
+
+const exactRank: NameRank = (rule, normalized) => {
+  const index = rule.names.indexOf(normalized);
+  return index === -1 ? Infinity : index;
+};
+
+const partialRank: NameRank = (rule, normalized) => {
+  if (rule.skipIdLike && isIdLike(normalized)) return Infinity;
+  const index = rule.names.findIndex(candidate => candidate.length > 2 && normalized.includes(candidate));
+  return index === -1 ? Infinity : index;
+};
+
+/**
+ * Guess the chat columns from the element's column names and types. Exact
+ * names claim columns for every field before partial ones ("Message Text"
+ * still counts as a message), a type that suits the field breaks ties, and
+ * each column is used only once.
+ */
+export const inferColumnMapping = (columns: WorkbookElementColumns): ColumnMapping => {
+  const available = Object.values(columns);
+  const claimed = new Set<string>();
+  const mapping: ColumnMapping = {};
+
+  const claimByName = (rule: ColumnRule, rank: NameRank) => {
+    if (mapping[rule.key]) return;
+
+    const match = available
+      .filter(column => !claimed.has(column.id))
+      .map(column => ({
+        column,
+        rank: rank(rule, normalizeName(column.name)) * 2 + (rule.types.includes(column.columnType) ? 0 : 1),
+      }))
+      .filter(candidate => Number.isFinite(candidate.rank))
+      .sort((a, b) => a.rank - b.rank)[0]?.column;
+
+    if (match) {
+      mapping[rule.key] = match.id;
+      claimed.add(match.id);
+    }
+  };
+
+  COLUMN_RULES.forEach(rule => claimByName(rule, exactRank));
+  COLUMN_RULES.forEach(rule => claimByName(rule, partialRank));
+
+  COLUMN_RULES.forEach(rule => {
+    if (mapping[rule.key] || !rule.fallbackType) return;
+    const match = available.find(column => !claimed.has(column.id) && column.columnType === rule.fallbackType);
+    if (match) {
+      mapping[rule.key] = match.id;
+      claimed.add(match.id);
+    }
+  });
+
+  return mapping;
+};
+
+export interface ColumnTypeIssue {
+  key: MappableColumnKey;
+  label: string;
+  columnName: string;
+  columnType: ValueType;
+  expectedTypes: ValueType[];
+}
+
+/** Mapped columns whose type doesn't suit the field, e.g. a number mapped as Message. */
+export const findColumnTypeIssues = (
+  columns: WorkbookElementColumns,
+  mapping: ColumnMapping
+): ColumnTypeIssue[] =>
+  COLUMN_RULES.flatMap(rule => {
+    const columnId = mapping[rule.key];
+    const column = columnId ? columns[columnId] : undefined;
+    if (!column || rule.types.includes(column.columnType)) return [];
+    return [{
+      key: rule.key,
+      label: rule.label,
+      columnName: column.name,
+      columnType: column.columnType,
+      expectedTypes: rule.types,
+    }];
+  });
@@ -0,0 +1,20 @@
+// src/utils/completion.ts
+
+// Values that mark an assistant row as still being written by the action chain
+const IN_PROGRESS_VALUES = [
+  'false', 'no', '0', 'generating', 'streaming', 'pending', 'running',
+  'in progress', 'in_progress', 'processing', 'started', 'writing',
+];
+
+/**
+ * Read the status/completed column of an assistant row. Only an explicit
+ * in-progress value counts as still generating; blank cells - e.g. rows
+ * written before the column existed - and anything else are treated as final.
+ */
+export const isGenerationInProgress = (value: unknown): boolean => {
+  if (typeof value === 'boolean') return !value;
+  if (typeof value === 'number') return value === 0;
+  if (value === null || value === undefined) return false;
+
+  return IN_PROGRESS_VALUES.includes(String(value).trim().toLowerCase());
+};
@@ -0,0 +1,220 @@
+// src/utils/exportConversation.ts
+
+import { format } from 'date-fns';
+import { ChatMessage, MessageSender } from '../types/chat.types';
+
+export type ExportFormat = 'markdown' | 'json' | 'csv' | 'html';
+
+export interface ExportHeader {
+  // Name of the workbook element the conversation comes from
+  title: string;
+  exportedAt: Date;
+  // Human-readable description of active filters, if any
+  filterSummary?: string;
+}
+
+export interface ExportOptions {
+  header: ExportHeader;
+  // Formats a message time for the human-readable formats (Markdown, HTML)
+  formatDateTime: (date: Date) => string;
+}
+
+const SENDER_LABELS: Record<MessageSender, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  other: 'User',
+};
+
+const getAuthorLabel = (message: ChatMessage): string =>
+  message.authorName || message.email || SENDER_LABELS[message.sender];
+
+const getFileStem = ({ title, exportedAt }: ExportHeader): string => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'conversation';
+  return `${slug}-${format(exportedAt, 'yyyyMMdd-HHmm')}`;
+};
+
+// Rows without a valid timestamp only borrowed a neighbour's time for sorting
+const formatMessageTime = (message: ChatMessage, formatDateTime: (date: Date) => string): string =>
+  message.timestampUnknown ? 'unknown time' : formatDateTime(message.timestamp);
+
+export const toMarkdown = (messages: ChatMessage[], { header, formatDateTime }: ExportOptions): string => {
+  const lines = [
+    `# ${header.title}`,
+    '',
+    `Exported ${formatDateTime(header.exportedAt)} · ${messages.length} messages`,
+  ];
+  if (header.filterSummary) lines.push('', `_${header.filterSummary}_`);
+
+  messages.forEach(message => {
+    const email = message.email && message.email !== message.authorName ? ` <${message.email}>` : '';
+    lines.push(
+      '',
+      '---',
+      '',
+      `**${getAuthorLabel(message)}**${email} · ${SENDER_LABELS[message.sender]} · ${formatMessageTime(message, formatDateTime)}`,
+      '',
+      message.content
+    );
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+export const toJson = (messages: ChatMessage[], { header }: ExportOptions): string =>
+  JSON.stringify({
+    title: header.title,
+    exportedAt: header.exportedAt.toISOString(),
+    filters: header.filterSummary ?? null,
+    messages: messages.map(message => ({
+      id: message.id,
+      timestamp: message.timestampUnknown ? null : message.timestamp.toISOString(),
+      sender: message.sender,
+      author: message.authorName ?? null,
+      email: message.email ?? null,
+      sessionId: message.sessionId ?? null,
+      content: message.content,
+      metadata: message.metadata ?? null,
+      feedback: message.feedback ?? null,
+    })),
+  }, null, 2);
+
+// Quote fields that need it, and defuse values spreadsheets would run as formulas
+const toCsvField = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// Header row first so spreadsheets and CSV parsers import it as is; the
+// title and export time are in the file name
+export const toCsv = (messages: ChatMessage[]): string => {
+  const rows = [
+    ['id', 'timestamp', 'sender', 'author', 'email', 'session_id', 'content'],
+    ...messages.map(message => [
+      message.id,
+      message.timestampUnknown ? '' : message.timestamp.toISOString(),
+      message.sender,
+      message.authorName ?? '',
+      message.email ?? '',
+      message.sessionId ?? '',
+      message.content,
+    ]),
+  ];
+
+  return `${rows.map(row => row.map(toCsvField).join(',')).join('\r\n')}\r\n`;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const PRINT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; margin: 2rem; }
+  header { border-bottom: 1px solid #D1D5DB; margin-bottom: 1.5rem; padding-bottom: 0.75rem; }
+  h1 { font-size: 1.25rem; margin: 0 0 0.25rem; }
+  .meta { color: #6B7280; font-size: 0.8rem; }
+  .message { break-inside: avoid; margin-bottom: 1rem; }
+  .message-header { font-size: 0.8rem; color: #6B7280; margin-bottom: 0.25rem; }
+  .message-header strong { color: #111827; }
+  .message-body { white-space: pre-wrap; word-wrap: break-word; border-left: 3px solid #D1D5DB; padding-left: 0.75rem; }
+  .assistant .message-body { border-left-color: #3B82F6; }
+  @page { margin: 1.5cm; }
+`;
+
+export const toPrintableHtml = (messages: ChatMessage[], { header, formatDateTime }: ExportOptions): string => {
+  const body = messages.map(message => `
+    <section class="message ${message.sender}">
+      <div class="message-header">
+        <strong>${escapeHtml(getAuthorLabel(message))}</strong>
+        ${message.email && message.email !== message.authorName ? ` &lt;${escapeHtml(message.email)}&gt;` : ''}
+        · ${SENDER_LABELS[message.sender]} · ${escapeHtml(formatMessageTime(message, formatDateTime))}
+      </div>
+      <div class="message-body">${escapeHtml(message.content)}</div>
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(header.title)}</title>
+  <style>${PRINT_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(header.title)}</h1>
+    <div class="meta">Exported ${escapeHtml(formatDateTime(header.exportedAt))} · ${messages.length} messages</div>
+    ${header.filterSummary ? `<div class="meta">${escapeHtml(header.filterSummary)}</div>` : ''}
+  </header>
+  ${body}
+</body>
+</html>
+`;
+};
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Open the print dialog for the HTML export from a hidden frame, so the
+ * viewer can save it as PDF. Plugins run in a sandboxed iframe where popups
+ * may be blocked; printing in place avoids that.
+ */
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error('Could not open the print view');
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => frame.remove());
+  frameWindow.focus();
+  frameWindow.print();
+};
+
+/** Serialize the messages and hand them to the browser as a download or print view. */
+export const exportConversation = (
+  messages: ChatMessage[],
+  exportFormat: ExportFormat,
+  options: ExportOptions
+) => {
+  const stem = getFileStem(options.header);
+
+  switch (exportFormat) {
+    case 'markdown':
+      downloadFile(toMarkdown(messages, options), `${stem}.md`, 'text/markdown;charset=utf-8');
+      break;
+    case 'json':
+      downloadFile(toJson(messages, options), `${stem}.json`, 'application/json;charset=utf-8');
+      break;
+    case 'csv':
+      // Byte order mark so Excel picks up UTF-8
+      downloadFile(`\uFEFF${toCsv(messages)}`, `${stem}.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'html':
+      printHtml(toPrintableHtml(messages, options));
+      break;
+  }
+};
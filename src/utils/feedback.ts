@@ -0,0 +1,24 @@
+// src/utils/feedback.ts
+
+import { FeedbackRating } from '../types/chat.types';
+
+const POSITIVE_VALUES = ['up', 'thumbs up', 'thumbsup', 'positive', 'good', 'helpful', 'yes', 'true', '1', '👍'];
+const NEGATIVE_VALUES = ['down', 'thumbs down', 'thumbsdown', 'negative', 'bad', 'unhelpful', 'no', 'false', '-1', '👎'];
+
+/**
+ * Read a stored rating from the feedback column. Accepts the values this
+ * plugin writes ('up' / 'down') as well as common alternatives.
+ */
+export const parseFeedbackRating = (value: unknown): FeedbackRating | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'number') {
+    if (value > 0) return 'up';
+    if (value < 0) return 'down';
+    return undefined;
+  }
+
+  const normalized = String(value).trim().toLowerCase();
+  if (POSITIVE_VALUES.includes(normalized)) return 'up';
+  if (NEGATIVE_VALUES.includes(normalized)) return 'down';
+  return undefined;
+};
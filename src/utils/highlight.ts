@@ -0,0 +1,73 @@
+// src/utils/highlight.ts
+
+export interface TextSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// Minimal shape of the hast nodes react-markdown hands to rehype plugins
+export interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+export const HIGHLIGHT_CLASS_NAME = 'chat-search-hit';
+
+/** Split text into alternating plain and matching segments (case-insensitive). */
+export const splitHighlights = (text: string, query: string): TextSegment[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, isMatch: false }];
+
+  const haystack = text.toLowerCase();
+  const segments: TextSegment[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const matchStart = haystack.indexOf(needle, position);
+    if (matchStart === -1) break;
+    if (matchStart > position) {
+      segments.push({ text: text.slice(position, matchStart), isMatch: false });
+    }
+    segments.push({ text: text.slice(matchStart, matchStart + needle.length), isMatch: true });
+    position = matchStart + needle.length;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), isMatch: false });
+  }
+
+  return segments;
+};
+
+const highlightChildren = (node: HastNode, query: string) => {
+  if (!node.children) return;
+
+  node.children = node.children.flatMap(child => {
+    if (child.type === 'text' && child.value) {
+      const segments = splitHighlights(child.value, query);
+      if (segments.length === 1 && !segments[0].isMatch) return [child];
+      return segments.map(segment => segment.isMatch
+        ? {
+          type: 'element',
+          tagName: 'mark',
+          properties: { className: [HIGHLIGHT_CLASS_NAME] },
+          children: [{ type: 'text', value: segment.text }],
+        }
+        : { type: 'text', value: segment.text });
+    }
+
+    // Code blocks stay untouched - chart specs are parsed from their text
+    if (child.type === 'element' && child.tagName !== 'pre') {
+      highlightChildren(child, query);
+    }
+    return [child];
+  });
+};
+
+/** Rehype plugin that wraps search hits in rendered markdown in <mark> elements. */
+export const rehypeHighlight = (query: string) => (tree: HastNode) => {
+  if (query.trim()) highlightChildren(tree, query);
+};
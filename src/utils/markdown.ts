@@ -0,0 +1,112 @@
+// src/utils/markdown.ts
+
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const TABLE_ROW_REGEX = /^\s*\|/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Drop an inline marker that has no closing partner yet, keeping its text
+const trimUnclosedMarker = (line: string, marker: string): string => {
+  const parts = line.split(marker);
+  // An even number of parts means an odd number of markers -> one is unclosed
+  if (parts.length % 2 === 0) {
+    const index = line.lastIndexOf(marker);
+    return line.slice(0, index) + line.slice(index + marker.length);
+  }
+  return line;
+};
+
+// Clean up the line that is still being revealed so that no raw syntax flashes
+const stabilizeLastLine = (line: string): string => {
+  // Markers with nothing after them yet ("#", "-", "1.", "---")
+  if (/^\s*(#{1,6}|[-*+]|\d+[.)]|[-*_=]{2,})\s*$/.test(line)) {
+    return '';
+  }
+
+  // Leave block prefixes such as "* " list bullets out of the marker counting
+  const prefix = line.match(/^\s*(?:[-*+]\s+|\d+[.)]\s+|#{1,6}\s+|>\s*)*/)?.[0] ?? '';
+  let result = line.slice(prefix.length);
+
+  // Links and images whose target is not finished: "[text", "[text](http..."
+  result = result.replace(/!?\[[^\]]*(\]\([^)]*)?$/, '');
+
+  // Inline code, bold, then italic
+  result = trimUnclosedMarker(result, '`');
+  result = trimUnclosedMarker(result, '**');
+  result = trimUnclosedMarker(result.replace(/\*\*/g, '\u0000'), '*').replace(/\u0000/g, '**');
+
+  return prefix + result;
+};
+
+/**
+ * Make a partially revealed markdown string safe to render.
+ *
+ * While the typewriter animation is running we only have a prefix of the
+ * final message. Rendering that prefix directly shows half-parsed syntax
+ * (stray `**`, a table header without its separator, an unterminated code
+ * fence swallowing the rest of the bubble). This closes or hides those
+ * constructs until the rest of the text arrives.
+ */
+export const stabilizePartialMarkdown = (text: string): string => {
+  const lines = text.split('\n');
+
+  // Count fences to find out whether we are inside a code block
+  let openFence: string | null = null;
+  lines.forEach(line => {
+    const match = line.match(FENCE_REGEX);
+    if (!match) return;
+    if (openFence === null) {
+      openFence = match[1];
+    } else if (match[1] === openFence) {
+      openFence = null;
+    }
+  });
+
+  if (openFence !== null) {
+    // The opening fence line itself is still being typed - hide it
+    if (FENCE_REGEX.test(lines[lines.length - 1])) {
+      return lines.slice(0, -1).join('\n');
+    }
+    return `${text}\n${openFence}`;
+  }
+
+  lines[lines.length - 1] = stabilizeLastLine(lines[lines.length - 1]);
+
+  // Hold back a trailing table until its separator row has been revealed
+  let tableStart = lines.length;
+  while (tableStart > 0 && TABLE_ROW_REGEX.test(lines[tableStart - 1])) {
+    tableStart--;
+  }
+  if (tableStart < lines.length) {
+    // The last row is still being typed unless its closing pipe has arrived
+    const completeRows = /\|\s*$/.test(lines[lines.length - 1])
+      ? lines.slice(tableStart)
+      : lines.slice(tableStart, -1);
+    const hasSeparator = completeRows.length > 1 && TABLE_SEPARATOR_REGEX.test(completeRows[1]);
+    if (!hasSeparator) {
+      return lines.slice(0, tableStart).join('\n');
+    }
+    return [...lines.slice(0, tableStart), ...completeRows].join('\n');
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Reduce markdown to the words a screen reader should speak: syntax markers,
+ * link targets and table rules are dropped, code keeps its text.
+ */
+export const toPlainText = (markdown: string): string =>
+  markdown
+    .split('\n')
+    .filter(line => !FENCE_REGEX.test(line) && !TABLE_SEPARATOR_REGEX.test(line))
+    .map(line => line
+      .replace(/^\s*(?:#{1,6}\s+|>\s*|[-*+]\s+|\d+[.)]\s+)+/, '')
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/(\*\*|__|\*|~~|`)(.+?)\1/g, '$2')
+      // Underscores inside snake_case words are not emphasis
+      .replace(/(^|\W)_(.+?)_(?=\W|$)/g, '$1$2')
+      .replace(/^\s*\||\|\s*$/g, '')
+      .replace(/\s*\|\s*/g, ', ')
+      .trim())
+    .filter(Boolean)
+    .join('\n');
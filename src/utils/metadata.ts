@@ -0,0 +1,93 @@
+// src/utils/metadata.ts
+
+import { MessageMetadata, MessageSource } from '../types/chat.types';
+
+const URL_REGEX = /^https?:\/\//i;
+
+const toOptionalNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Short chip label for a URL: host plus the last path segment
+const getUrlLabel = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const lastSegment = parsed.pathname.split('/').filter(Boolean).pop();
+    return lastSegment ? `${parsed.hostname}/…/${lastSegment}` : parsed.hostname;
+  } catch {
+    return url;
+  }
+};
+
+const toSource = (value: unknown): MessageSource | null => {
+  if (typeof value === 'string') {
+    const label = value.trim();
+    if (!label) return null;
+    return URL_REGEX.test(label) ? { label: getUrlLabel(label), url: label } : { label };
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const url = [record.url, record.href, record.link].find(v => typeof v === 'string' && URL_REGEX.test(v)) as string | undefined;
+    const label = [record.label, record.title, record.name, record.table].find(v => typeof v === 'string' && v.trim()) as string | undefined;
+    if (!url && !label) return null;
+    return { label: label?.trim() ?? getUrlLabel(url as string), url };
+  }
+
+  return null;
+};
+
+/**
+ * Parse the sources column: a JSON array of strings or `{ label, url }`
+ * objects, or a plain comma/newline separated list.
+ */
+export const parseSources = (value: unknown): MessageSource[] => {
+  if (value === null || value === undefined || value === '') return [];
+
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else {
+    const text = String(value).trim();
+    try {
+      const parsed = JSON.parse(text);
+      items = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      items = text.split(/[\n,]/);
+    }
+  }
+
+  return items
+    .map(toSource)
+    .filter((source): source is MessageSource => source !== null);
+};
+
+/**
+ * Build message metadata from the raw cell values of one row.
+ * Returns undefined when none of the metadata columns hold a value.
+ */
+export const buildMessageMetadata = (values: {
+  model?: unknown;
+  latency?: unknown;
+  inputTokens?: unknown;
+  outputTokens?: unknown;
+  sources?: unknown;
+}): MessageMetadata | undefined => {
+  const metadata: MessageMetadata = {
+    model: values.model ? String(values.model) : undefined,
+    latencyMs: toOptionalNumber(values.latency),
+    inputTokens: toOptionalNumber(values.inputTokens),
+    outputTokens: toOptionalNumber(values.outputTokens),
+    sources: parseSources(values.sources),
+  };
+
+  const hasValue = metadata.model !== undefined ||
+    metadata.latencyMs !== undefined ||
+    metadata.inputTokens !== undefined ||
+    metadata.outputTokens !== undefined ||
+    (metadata.sources?.length ?? 0) > 0;
+
+  return hasValue ? metadata : undefined;
+};
@@ -0,0 +1,59 @@
+// src/utils/pendingMessages.ts
+
+import { ChatMessage } from '../types/chat.types';
+
+// How far apart the local echo and the stored row may be timestamped.
+// Generous because the workbook clock and the browser clock can disagree.
+export const PENDING_MATCH_WINDOW_MS = 5 * 60 * 1000;
+
+const normalizeContent = (content: string) => content.trim().replace(/\s+/g, ' ');
+
+/**
+ * Whether a row from the history table is the stored copy of a local echo.
+ * Matches on content, author and a time window around the send.
+ */
+export const isMatchingMessage = (
+  pending: ChatMessage,
+  stored: ChatMessage,
+  currentUserEmail?: string
+): boolean => {
+  // Our own row can classify as 'other' when the author doesn't match the viewer identity
+  if (stored.sender === 'assistant') return false;
+  if (normalizeContent(stored.content) !== normalizeContent(pending.content)) return false;
+
+  // Only compare emails when both sides know who wrote the message
+  if (currentUserEmail && stored.email &&
+      stored.email.toLowerCase() !== currentUserEmail.toLowerCase()) {
+    return false;
+  }
+
+  // Rows without a session belong to the "Earlier messages" thread, whose id is ''
+  if ((stored.sessionId ?? '') !== (pending.sessionId ?? '')) return false;
+
+  const offset = Math.abs(stored.timestamp.getTime() - pending.timestamp.getTime());
+  return offset <= PENDING_MATCH_WINDOW_MS;
+};
+
+/**
+ * Drop local echoes that now have a stored counterpart among `newMessages`.
+ * Each stored row can only confirm one echo, oldest echo first.
+ */
+export const reconcilePendingMessages = (
+  pending: ChatMessage[],
+  newMessages: ChatMessage[],
+  currentUserEmail?: string
+): ChatMessage[] => {
+  if (pending.length === 0 || newMessages.length === 0) return pending;
+
+  const candidates = [...newMessages];
+  return pending.filter(local => {
+    // Failed messages never reached the action chain
+    if (local.status === 'failed') return true;
+
+    const matchIndex = candidates.findIndex(stored => isMatchingMessage(local, stored, currentUserEmail));
+    if (matchIndex === -1) return true;
+
+    candidates.splice(matchIndex, 1);
+    return false;
+  });
+};
@@ -0,0 +1,193 @@
+// src/utils/reveal.ts
+
+import { RevealMode } from '../types/chat.types';
+import { HastNode } from './highlight';
+
+export const REVEAL_MODES: RevealMode[] = ['Typewriter', 'Word fade', 'Line by line', 'Instant'];
+
+// Returns a number in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// Timer functions the reveal is scheduled with; tests can pass a fake clock
+export interface RevealClock {
+  setTimeout: (callback: () => void, delay: number) => ReturnType<typeof setTimeout>;
+  clearTimeout: (handle: ReturnType<typeof setTimeout>) => void;
+}
+
+export const SYSTEM_CLOCK: RevealClock = {
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: handle => clearTimeout(handle),
+};
+
+/** Small seeded PRNG (mulberry32) so a reveal can be replayed exactly. */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export interface RevealStep {
+  // Characters to reveal in this step
+  length: number;
+  // Wait before showing them, in ms at 1x speed
+  delay: number;
+}
+
+// Chunked reveal that feels similar to LLM streaming
+const getTypewriterStep = (remainingText: string, random: RandomSource): RevealStep => {
+  // Determine chunk size with some randomness for natural feel
+  const getChunkSize = () => {
+    // Look for natural breaking points
+    const nextSpace = remainingText.indexOf(' ');
+    const nextPunctuation = remainingText.search(/[.,!?;:\n]/);
+    const nextNewline = remainingText.indexOf('\n');
+
+    // Find the nearest natural break point
+    const breakPoints = [nextSpace, nextPunctuation, nextNewline]
+      .filter(point => point > 0)
+      .sort((a, b) => a - b);
+
+    if (breakPoints.length > 0) {
+      const nearestBreak = breakPoints[0];
+
+      // For very short segments, include the break character
+      if (nearestBreak <= 3) {
+        return nearestBreak + 1;
+      }
+
+      // For longer segments, chunk before the break
+      if (nearestBreak <= 15) {
+        // Random decision to break early or at the natural point
+        const shouldBreakEarly = random() > 0.7;
+        if (shouldBreakEarly && nearestBreak > 5) {
+          return Math.floor(nearestBreak * (0.3 + random() * 0.5));
+        }
+        return nearestBreak;
+      }
+    }
+
+    // No nearby break points, create artificial chunks
+    const baseChunk = 2 + Math.floor(random() * 8); // 2-9 characters
+    const variation = random();
+
+    if (variation < 0.1) {
+      // 10% chance of very small chunk (1-2 chars)
+      return 1 + Math.floor(random() * 2);
+    } else if (variation < 0.3) {
+      // 20% chance of larger chunk (10-20 chars)
+      return 10 + Math.floor(random() * 11);
+    }
+
+    return baseChunk;
+  };
+
+  const chunkSize = Math.min(getChunkSize(), remainingText.length);
+  const chunk = remainingText.slice(0, chunkSize);
+
+  // Determine delay based on chunk content and size
+  const getDelay = () => {
+    // Base delay that creates a feeling similar to LLM streaming
+    const baseDelay = 20 + random() * 35; // 20-55ms base
+
+    // Check if we just finished a sentence
+    const lastChar = chunk[chunk.length - 1];
+    if (['.', '!', '?'].includes(lastChar)) {
+      return baseDelay + 150 + random() * 200; // 170-405ms pause after sentence
+    }
+
+    // Check for other punctuation
+    if ([',', ';', ':'].includes(lastChar)) {
+      return baseDelay + 70 + random() * 70; // 90-210ms pause
+    }
+
+    // Newline gets a medium pause
+    if (chunk.includes('\n')) {
+      return baseDelay + 100 + random() * 100; // 120-255ms pause
+    }
+
+    // Occasional random micro-pauses to simulate thinking
+    if (random() < 0.15) {
+      return baseDelay + 30 + random() * 100; // 50-185ms occasional pause
+    }
+
+    // Add slight variability based on chunk size
+    const sizeMultiplier = 1 + (chunkSize / 20); // Longer chunks = slightly longer delay
+    return baseDelay * sizeMultiplier;
+  };
+
+  return { length: chunkSize, delay: getDelay() };
+};
+
+// One word (with the whitespace after it) at a steady pace
+const getWordStep = (remainingText: string, random: RandomSource): RevealStep => {
+  const word = remainingText.match(/^\s*\S+\s*/)?.[0] ?? remainingText;
+  const endsSentence = /[.!?]\s*$/.test(word);
+  return { length: word.length, delay: 45 + random() * 20 + (endsSentence ? 120 : 0) };
+};
+
+// One line at a time; long lines stay up a little longer
+const getLineStep = (remainingText: string): RevealStep => {
+  const newline = remainingText.indexOf('\n');
+  const length = newline === -1 ? remainingText.length : newline + 1;
+  return { length, delay: 80 + Math.min(length, 200) * 2 };
+};
+
+/** Size of the next reveal chunk and how long to wait before showing it. */
+export const getRevealStep = (
+  remainingText: string,
+  mode: RevealMode,
+  random: RandomSource = Math.random
+): RevealStep => {
+  switch (mode) {
+    case 'Word fade':
+      return getWordStep(remainingText, random);
+    case 'Line by line':
+      return getLineStep(remainingText);
+    case 'Instant':
+      return { length: remainingText.length, delay: 0 };
+    default:
+      return getTypewriterStep(remainingText, random);
+  }
+};
+
+// Two identical animations; switching between them restarts the fade on the reused element
+export const REVEAL_FADE_CLASS_NAMES = ['chat-reveal-fade-a', 'chat-reveal-fade-b'];
+
+// Last text node outside code blocks, depth first
+const findLastText = (node: HastNode): HastNode | undefined => {
+  const children = node.children ?? [];
+  for (let i = children.length - 1; i >= 0; i--) {
+    const child = children[i];
+    if (child.type === 'text' && child.value?.trim()) return node;
+    if (child.type === 'element' && child.tagName !== 'pre') {
+      const found = findLastText(child);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+/** Rehype plugin that fades in the newest word of a message being revealed. */
+export const rehypeFadeLastWord = (step: number) => (tree: HastNode) => {
+  const parent = findLastText(tree);
+  if (!parent?.children) return;
+
+  const index = parent.children.map(child => child.type === 'text' && !!child.value?.trim()).lastIndexOf(true);
+  const value = parent.children[index].value ?? '';
+  const wordStart = value.search(/\S+\s*$/);
+
+  parent.children.splice(index, 1,
+    { type: 'text', value: value.slice(0, wordStart) },
+    {
+      type: 'element',
+      tagName: 'span',
+      properties: { className: [REVEAL_FADE_CLASS_NAMES[step % 2]] },
+      children: [{ type: 'text', value: value.slice(wordStart) }],
+    }
+  );
+};
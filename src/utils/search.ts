@@ -0,0 +1,82 @@
+// src/utils/search.ts
+
+import { format } from 'date-fns';
+import { ChatMessage } from '../types/chat.types';
+import { toZonedTime } from './timestamps';
+
+// "user" covers every human in the conversation, not just the viewer
+export type SenderFilter = 'all' | 'user' | 'assistant';
+
+export interface MessageFilters {
+  sender: SenderFilter;
+  // Calendar days (yyyy-MM-dd) in the display time zone; empty means open-ended
+  from: string;
+  to: string;
+}
+
+export const EMPTY_FILTERS: MessageFilters = { sender: 'all', from: '', to: '' };
+
+export const hasActiveFilters = (filters: MessageFilters): boolean =>
+  filters.sender !== 'all' || filters.from !== '' || filters.to !== '';
+
+const SENDER_FILTER_LABELS: Record<SenderFilter, string> = {
+  all: 'All messages',
+  user: 'User messages',
+  assistant: 'Assistant messages',
+};
+
+/** One-line summary of the active filters, e.g. for export headers. */
+export const describeFilters = (filters: MessageFilters): string | undefined => {
+  if (!hasActiveFilters(filters)) return undefined;
+
+  const parts = [SENDER_FILTER_LABELS[filters.sender]];
+  if (filters.from && filters.to) {
+    parts.push(`from ${filters.from} to ${filters.to}`);
+  } else if (filters.from) {
+    parts.push(`from ${filters.from}`);
+  } else if (filters.to) {
+    parts.push(`up to ${filters.to}`);
+  }
+  return `Filtered: ${parts.join(' ')}`;
+};
+
+/** Narrow the conversation to the selected senders and date range. */
+export const filterMessages = (
+  messages: ChatMessage[],
+  filters: MessageFilters,
+  displayTimeZone?: string
+): ChatMessage[] => {
+  if (!hasActiveFilters(filters)) return messages;
+
+  return messages.filter(message => {
+    if (filters.sender === 'assistant' && message.sender !== 'assistant') return false;
+    if (filters.sender === 'user' && message.sender === 'assistant') return false;
+
+    if (filters.from || filters.to) {
+      const day = format(toZonedTime(message.timestamp, displayTimeZone), 'yyyy-MM-dd');
+      if (filters.from && day < filters.from) return false;
+      if (filters.to && day > filters.to) return false;
+    }
+
+    return true;
+  });
+};
+
+/** Case-insensitive match against the message text and its author. */
+export const messageMatches = (message: ChatMessage, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return false;
+
+  return [message.content, message.authorName, message.email]
+    .some(value => value?.toLowerCase().includes(needle));
+};
+
+/** Indices of the messages that match the query, oldest first. */
+export const findMatches = (messages: ChatMessage[], query: string): number[] => {
+  if (!query.trim()) return [];
+
+  return messages.reduce<number[]>((matches, message, index) => {
+    if (messageMatches(message, query)) matches.push(index);
+    return matches;
+  }, []);
+};
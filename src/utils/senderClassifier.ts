@@ -0,0 +1,112 @@
+// src/utils/senderClassifier.ts
+
+import { MessageSender } from '../types/chat.types';
+
+// The raw values a row gives us to decide who wrote it
+export interface AuthorInfo {
+  author: string;
+  email?: string;
+  role?: string;
+}
+
+/**
+ * A classification rule. Returns true when the row was written by the
+ * assistant, false when it definitely was not, or undefined to defer to the
+ * next rule.
+ */
+export type AssistantRule = (info: AuthorInfo) => boolean | undefined;
+
+export interface SenderClassifierOptions {
+  // Author values (case-insensitive, exact match) that mark the assistant
+  assistantNames: string[];
+  // Regular expressions tested against the author value
+  assistantPatterns: RegExp[];
+  // Role column values that mean assistant / human; only used when a Role column is mapped
+  assistantRoles: string[];
+  // Identity of the viewer; when empty every human message counts as the viewer's
+  currentUserEmail?: string;
+  // Extra rules run before the built-in ones
+  rules?: AssistantRule[];
+}
+
+export type SenderClassifier = (info: AuthorInfo) => MessageSender;
+
+const normalize = (value: string | undefined) => (value ?? '').trim().toLowerCase();
+
+// Split a comma or newline separated editor setting into trimmed, non-empty entries
+export const parseList = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(/[,\n]/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+/**
+ * Compile regex rules from an editor setting, one per line. Accepts either a
+ * bare pattern (matched case-insensitively) or `/pattern/flags`.
+ */
+export const parsePatterns = (value: string | undefined): RegExp[] =>
+  (value ?? '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .flatMap(line => {
+      const literal = line.match(/^\/(.+)\/([a-z]*)$/);
+      try {
+        return [literal ? new RegExp(literal[1], literal[2]) : new RegExp(line, 'i')];
+      } catch {
+        console.warn(`Ignoring invalid assistant pattern: ${line}`);
+        return [];
+      }
+    });
+
+const roleRule = (assistantRoles: string[]): AssistantRule => ({ role }) => {
+  if (role === undefined || normalize(role) === '') return undefined;
+  return assistantRoles.includes(normalize(role));
+};
+
+const exactNameRule = (assistantNames: string[]): AssistantRule => ({ author }) =>
+  assistantNames.includes(normalize(author)) || undefined;
+
+const patternRule = (patterns: RegExp[]): AssistantRule => ({ author }) =>
+  patterns.some(pattern => pattern.test(author)) || undefined;
+
+const isCurrentUser = (info: AuthorInfo, currentUserEmail: string): boolean => {
+  const email = normalize(currentUserEmail);
+  const author = normalize(info.author);
+  if (info.email && normalize(info.email) === email) return true;
+  return author === email || author === email.split('@')[0];
+};
+
+/**
+ * Build a classifier that tells the assistant, the viewer and other humans apart.
+ * Rules run in order - custom rules, Role column, exact names, regex
+ * patterns - and the first one that decides wins. Substring matching is
+ * deliberately not supported: "ai" must not match "Aiden".
+ */
+export const createSenderClassifier = ({
+  assistantNames,
+  assistantPatterns,
+  assistantRoles,
+  currentUserEmail,
+  rules = [],
+}: SenderClassifierOptions): SenderClassifier => {
+  const chain: AssistantRule[] = [
+    ...rules,
+    roleRule(assistantRoles.map(normalize)),
+    exactNameRule(assistantNames.map(normalize)),
+    patternRule(assistantPatterns),
+  ];
+
+  return (info) => {
+    for (const rule of chain) {
+      const result = rule(info);
+      if (result !== undefined) {
+        if (result) return 'assistant';
+        break;
+      }
+    }
+
+    if (!currentUserEmail) return 'user';
+    return isCurrentUser(info, currentUserEmail) ? 'user' : 'other';
+  };
+};
@@ -0,0 +1,14 @@
+// src/utils/sigma.ts
+
+import { WorkbookVariable } from '@sigmacomputing/plugin';
+
+/**
+ * Read the current value of a Sigma control variable.
+ * The plugin types only describe `defaultValue.type`, but Sigma sends the
+ * control's current value alongside it as `defaultValue.value`.
+ */
+export const getVariableValue = (variable: WorkbookVariable | undefined): string | undefined => {
+  const value = (variable?.defaultValue as { value?: unknown } | undefined)?.value;
+  if (value === undefined || value === null) return undefined;
+  return String(value);
+};
@@ -0,0 +1,50 @@
+// src/utils/suggestions.ts
+
+// More chips than this crowd the composer
+export const MAX_SUGGESTIONS = 6;
+
+const toSuggestionText = (value: unknown): string => {
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const text = [record.text, record.prompt, record.label, record.title].find(v => typeof v === 'string');
+    return typeof text === 'string' ? text.trim() : '';
+  }
+  return value === null || value === undefined ? '' : String(value).trim();
+};
+
+// Trimmed, non-empty and de-duplicated (case-insensitive), in original order
+const cleanSuggestions = (items: unknown[]): string[] => {
+  const seen = new Set<string>();
+  return items
+    .map(toSuggestionText)
+    .filter(text => {
+      const key = text.toLowerCase();
+      if (!text || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+/**
+ * Parse the suggestions column of an assistant row: a JSON array of strings
+ * or `{ text }` objects, or a list separated by newlines, `|` or `;`.
+ * Commas are left alone since they are common inside a prompt.
+ */
+export const parseSuggestions = (value: unknown): string[] => {
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return cleanSuggestions(value);
+
+  const text = String(value).trim();
+  try {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed)) return cleanSuggestions(parsed);
+  } catch {
+    // Not JSON - fall through to the delimited form
+  }
+  return cleanSuggestions(text.split(/\n|\||;/));
+};
+
+/** Starter prompts from the editor text (one per line) plus a column of another element. */
+export const buildStarterPrompts = (text: string | undefined, columnValues: unknown[] = []): string[] =>
+  cleanSuggestions([...(text ?? '').split('\n'), ...columnValues]);
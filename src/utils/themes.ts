@@ -0,0 +1,149 @@
+// src/utils/themes.ts
+
+import * as d3 from 'd3';
+import { ColorConfig } from '../types/chat.types';
+import { MIN_CONTRAST_RATIO, ensureContrast, getContrastRatio } from './colors';
+
+export type ThemePreset = 'iMessage' | 'Slack' | 'High contrast' | 'Dark' | 'Auto';
+
+export const THEME_PRESET_NAMES: ThemePreset[] = ['iMessage', 'Slack', 'High contrast', 'Dark', 'Auto'];
+
+// Every preset meets WCAG AA (4.5:1) on its own, so only overrides can trigger the contrast warning
+export const THEME_PRESETS: Record<Exclude<ThemePreset, 'Auto'>, ColorConfig> = {
+  iMessage: {
+    backgroundColor: '#F2F2F7',
+    userBubbleColor: '#0066D6',
+    userTextColor: '#FFFFFF',
+    assistantBubbleColor: '#E9E9EB',
+    assistantTextColor: '#000000',
+    headerBackgroundColor: '#FFFFFF',
+    headerTextColor: '#1F2937',
+    inputBackgroundColor: '#F3F4F6',
+    inputTextColor: '#1F2937',
+    placeholderTextColor: '#5F6672',
+    buttonBackgroundColor: '#2563EB',
+    buttonTextColor: '#FFFFFF',
+    timestampColor: '#5F6672',
+    dayStampBackgroundColor: '#F3F4F6',
+    dayStampTextColor: '#5F6672',
+  },
+  Slack: {
+    backgroundColor: '#FFFFFF',
+    userBubbleColor: '#E8F5FA',
+    userTextColor: '#1D1C1D',
+    assistantBubbleColor: '#F8F8F8',
+    assistantTextColor: '#1D1C1D',
+    headerBackgroundColor: '#3F0E40',
+    headerTextColor: '#FFFFFF',
+    inputBackgroundColor: '#FFFFFF',
+    inputTextColor: '#1D1C1D',
+    placeholderTextColor: '#696969',
+    buttonBackgroundColor: '#007A5A',
+    buttonTextColor: '#FFFFFF',
+    timestampColor: '#616061',
+    dayStampBackgroundColor: '#FFFFFF',
+    dayStampTextColor: '#1D1C1D',
+  },
+  'High contrast': {
+    backgroundColor: '#FFFFFF',
+    userBubbleColor: '#0000CC',
+    userTextColor: '#FFFFFF',
+    assistantBubbleColor: '#E0E0E0',
+    assistantTextColor: '#000000',
+    headerBackgroundColor: '#000000',
+    headerTextColor: '#FFFFFF',
+    inputBackgroundColor: '#FFFFFF',
+    inputTextColor: '#000000',
+    placeholderTextColor: '#4D4D4D',
+    buttonBackgroundColor: '#000000',
+    buttonTextColor: '#FFFFFF',
+    timestampColor: '#333333',
+    dayStampBackgroundColor: '#000000',
+    dayStampTextColor: '#FFFFFF',
+  },
+  Dark: {
+    backgroundColor: '#111827',
+    userBubbleColor: '#2563EB',
+    userTextColor: '#FFFFFF',
+    assistantBubbleColor: '#374151',
+    assistantTextColor: '#F9FAFB',
+    headerBackgroundColor: '#1F2937',
+    headerTextColor: '#F9FAFB',
+    inputBackgroundColor: '#1F2937',
+    inputTextColor: '#F9FAFB',
+    placeholderTextColor: '#9CA3AF',
+    buttonBackgroundColor: '#2563EB',
+    buttonTextColor: '#FFFFFF',
+    timestampColor: '#9CA3AF',
+    dayStampBackgroundColor: '#1F2937',
+    dayStampTextColor: '#D1D5DB',
+  },
+};
+
+export const COLOR_FIELDS = Object.keys(THEME_PRESETS.iMessage) as (keyof ColorConfig)[];
+
+/**
+ * Accept a color from the editor panel, or fall back to the default.
+ * Anything d3 can parse is accepted - hex (3, 4, 6 or 8 digits), rgb()/rgba(),
+ * hsl()/hsla() and named colors - so contrast checks always get a real color.
+ */
+export const validateHexColor = (color: string | undefined, defaultColor: string): string => {
+  const value = color?.trim();
+  if (!value) return defaultColor;
+  return d3.color(value) !== null ? value : defaultColor;
+};
+
+/**
+ * Build the color configuration from a preset plus per-field overrides. Blank
+ * or invalid overrides keep the preset's color. "Auto" follows the viewer's
+ * light/dark preference.
+ */
+export const resolveColorConfig = (
+  preset: string | undefined,
+  overrides: Partial<Record<keyof ColorConfig, string>>,
+  prefersDark: boolean
+): ColorConfig => {
+  const base = preset === 'Auto'
+    ? THEME_PRESETS[prefersDark ? 'Dark' : 'iMessage']
+    : THEME_PRESETS[preset as keyof typeof THEME_PRESETS] ?? THEME_PRESETS.iMessage;
+
+  return COLOR_FIELDS.reduce((colors, field) => {
+    colors[field] = validateHexColor(overrides[field], base[field]);
+    return colors;
+  }, { ...base });
+};
+
+interface ContrastPair {
+  text: keyof ColorConfig;
+  background: keyof ColorConfig;
+  label: string;
+}
+
+// Text colors and the background each one is drawn on
+const CONTRAST_PAIRS: ContrastPair[] = [
+  { text: 'userTextColor', background: 'userBubbleColor', label: 'User text on user bubble' },
+  { text: 'assistantTextColor', background: 'assistantBubbleColor', label: 'Assistant text on assistant bubble' },
+  { text: 'headerTextColor', background: 'headerBackgroundColor', label: 'Header text on header' },
+  { text: 'inputTextColor', background: 'inputBackgroundColor', label: 'Input text on input' },
+  { text: 'placeholderTextColor', background: 'inputBackgroundColor', label: 'Placeholder on input' },
+  { text: 'buttonTextColor', background: 'buttonBackgroundColor', label: 'Send button text on button' },
+  { text: 'timestampColor', background: 'backgroundColor', label: 'Timestamps on background' },
+  { text: 'dayStampTextColor', background: 'dayStampBackgroundColor', label: 'Day stamp text on day stamp' },
+];
+
+export interface ContrastIssue extends ContrastPair {
+  ratio: number;
+}
+
+/** Text/background pairs below WCAG AA contrast for normal text (4.5:1). */
+export const findContrastIssues = (colorConfig: ColorConfig): ContrastIssue[] =>
+  CONTRAST_PAIRS
+    .map(pair => ({ ...pair, ratio: getContrastRatio(colorConfig[pair.text], colorConfig[pair.background]) }))
+    .filter(issue => issue.ratio < MIN_CONTRAST_RATIO);
+
+/** Nudge every failing text color until it meets WCAG AA on its background. */
+export const adjustTextContrast = (colorConfig: ColorConfig): ColorConfig =>
+  CONTRAST_PAIRS.reduce((colors, pair) => ({
+    ...colors,
+    [pair.text]: ensureContrast(colors[pair.text], colors[pair.background]),
+  }), colorConfig);
@@ -0,0 +1,68 @@
+// src/utils/threads.ts
+
+import { ChatMessage, ChatThread } from '../types/chat.types';
+
+const TITLE_MAX_LENGTH = 48;
+
+// Messages without a session id are collected in this thread
+export const UNASSIGNED_THREAD_ID = '';
+
+const getThreadTitle = (messages: ChatMessage[]): string => {
+  const firstPrompt = messages.find(message => message.sender === 'user') ?? messages[0];
+  if (!firstPrompt) return 'New conversation';
+
+  // Use the first line of the opening prompt, without markdown decoration
+  const firstLine = firstPrompt.content.split('\n')[0].replace(/[#*_`>]/g, '').trim();
+  if (!firstLine) return 'Conversation';
+
+  return firstLine.length > TITLE_MAX_LENGTH
+    ? `${firstLine.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+};
+
+/**
+ * Group messages into threads by session id, most recent thread first.
+ * `lastSeen` maps thread ids to the newest timestamp (ms) the viewer has seen;
+ * anything newer that the viewer didn't write counts as unread.
+ */
+export const buildThreads = (
+  messages: ChatMessage[],
+  lastSeen: Record<string, number>
+): ChatThread[] => {
+  const groups = new Map<string, ChatMessage[]>();
+  messages.forEach(message => {
+    const threadId = message.sessionId ?? UNASSIGNED_THREAD_ID;
+    const group = groups.get(threadId);
+    if (group) {
+      group.push(message);
+    } else {
+      groups.set(threadId, [message]);
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([id, threadMessages]) => {
+      const lastMessageAt = new Date(Math.max(...threadMessages.map(m => m.timestamp.getTime())));
+      const seenAt = lastSeen[id];
+      const unreadCount = seenAt === undefined
+        ? 0
+        : threadMessages.filter(m => m.sender !== 'user' && m.timestamp.getTime() > seenAt).length;
+
+      return {
+        id,
+        title: id === UNASSIGNED_THREAD_ID ? 'Earlier messages' : getThreadTitle(threadMessages),
+        lastMessageAt,
+        messageCount: threadMessages.length,
+        unreadCount,
+      };
+    })
+    .sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime());
+};
+
+// Fresh id for a new conversation
+export const createSessionId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
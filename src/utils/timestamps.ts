@@ -0,0 +1,198 @@
+// src/utils/timestamps.ts
+
+import { format, isValid, parse } from 'date-fns';
+
+export type TimeFormatMode = '12-hour' | '24-hour' | 'Custom';
+
+const TIME_FORMATS: Record<Exclude<TimeFormatMode, 'Custom'>, string> = {
+  '12-hour': 'h:mm a',
+  '24-hour': 'HH:mm',
+};
+
+// Wall-clock formats we try, in order, for strings without a UTC offset
+const NAIVE_FORMATS = [
+  "yyyy-MM-dd'T'HH:mm:ss.SSS",
+  "yyyy-MM-dd'T'HH:mm:ss",
+  "yyyy-MM-dd'T'HH:mm",
+  'yyyy-MM-dd HH:mm:ss.SSS',
+  'yyyy-MM-dd HH:mm:ss',
+  'yyyy-MM-dd HH:mm',
+  'yyyy-MM-dd',
+  'M/d/yyyy, h:mm:ss a',
+  'M/d/yyyy h:mm:ss a',
+  'M/d/yyyy h:mm a',
+  'M/d/yyyy HH:mm:ss',
+  'M/d/yyyy HH:mm',
+  'M/d/yyyy',
+  'd.M.yyyy HH:mm:ss',
+  'd.M.yyyy HH:mm',
+  'd.M.yyyy',
+  'MMM d, yyyy, h:mm:ss a',
+  'MMM d, yyyy h:mm a',
+  'MMM d, yyyy',
+];
+
+const OFFSET_SUFFIX_REGEX = /(?:[zZ]|[+-]\d{2}:?\d{2})$/;
+
+// Epoch values below this are seconds; 1e11 seconds is the year 5138
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+const dateTimeFormatCache = new Map<string, Intl.DateTimeFormat>();
+
+const getDateTimeFormat = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = dateTimeFormatCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    dateTimeFormatCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** Whether the browser knows the given IANA time zone name. */
+export const isValidTimeZone = (timeZone: string | undefined): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    getDateTimeFormat(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Offset of `timeZone` from UTC at the given instant, in milliseconds. */
+export const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  const parts = getDateTimeFormat(timeZone).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second')
+  );
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+/**
+ * Shift an instant so its local getters read the wall-clock time in
+ * `timeZone`. Only for formatting and calendar comparisons.
+ */
+export const toZonedTime = (date: Date, timeZone?: string): Date => {
+  if (!isValidTimeZone(timeZone)) return date;
+  const localOffset = -date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() + getTimeZoneOffsetMs(date, timeZone) - localOffset);
+};
+
+/**
+ * Interpret a wall-clock time (read from `local`'s local getters) as a time
+ * in `timeZone` and return the real instant.
+ */
+const fromZonedWallClock = (local: Date, timeZone: string): Date => {
+  const wallClockAsUtc = Date.UTC(
+    local.getFullYear(),
+    local.getMonth(),
+    local.getDate(),
+    local.getHours(),
+    local.getMinutes(),
+    local.getSeconds(),
+    local.getMilliseconds()
+  );
+  // Re-check the offset at the result to land on the right side of DST changes
+  const guess = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  return new Date(wallClockAsUtc - getTimeZoneOffsetMs(new Date(guess), timeZone));
+};
+
+const fromEpoch = (value: number): Date =>
+  new Date(Math.abs(value) < EPOCH_SECONDS_LIMIT ? value * 1000 : value);
+
+/**
+ * Normalize a timestamp cell from Sigma into a Date.
+ * Handles epoch seconds/milliseconds, ISO strings, compact yyyyMMdd dates
+ * and common date formats.
+ * Values without a UTC offset are read in `sourceTimeZone` (browser time
+ * when unset). Returns null when the value is missing or unparsable.
+ */
+export const parseTimestamp = (value: unknown, sourceTimeZone?: string): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Date) {
+    return isValid(value) ? value : null;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? fromEpoch(value) : null;
+  }
+
+  // Warehouses write micro- or nanoseconds; date-fns patterns take exactly milliseconds
+  const text = String(value).trim()
+    .replace(/(:\d{2})\.(\d+)/, (_, seconds: string, fraction: string) => `${seconds}.${fraction.padEnd(3, '0').slice(0, 3)}`);
+  if (!text) return null;
+
+  // Digit-only strings are epoch values (10+ digits) or compact yyyyMMdd dates
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    if (/^-?\d{10,}(\.\d+)?$/.test(text)) return fromEpoch(Number(text));
+    const compact = /^\d{8}$/.test(text) ? parse(text, 'yyyyMMdd', new Date()) : null;
+    if (!compact || !isValid(compact)) return null;
+    return isValidTimeZone(sourceTimeZone) ? fromZonedWallClock(compact, sourceTimeZone) : compact;
+  }
+
+  // Strings that carry their own offset are unambiguous
+  if (OFFSET_SUFFIX_REGEX.test(text)) {
+    const date = new Date(text);
+    if (isValid(date)) return date;
+  }
+
+  const referenceDate = new Date();
+  for (const pattern of NAIVE_FORMATS) {
+    const local = parse(text, pattern, referenceDate);
+    if (isValid(local)) {
+      return isValidTimeZone(sourceTimeZone) ? fromZonedWallClock(local, sourceTimeZone) : local;
+    }
+  }
+
+  // Last resort: whatever the browser understands (e.g. Date.toString() output)
+  const fallback = new Date(text);
+  return isValid(fallback) ? fallback : null;
+};
+
+export type HistoryOrder = 'ascending' | 'descending' | 'unknown';
+
+/**
+ * Guess how the history element is sorted from its timestamp column: compare
+ * the first and last rows that have a readable timestamp.
+ */
+export const detectHistoryOrder = (values: unknown[], sourceTimeZone?: string): HistoryOrder => {
+  const times = values
+    .map(value => parseTimestamp(value, sourceTimeZone)?.getTime())
+    .filter((time): time is number => time !== undefined);
+  if (times.length < 2 || times[0] === times[times.length - 1]) return 'unknown';
+  return times[0] < times[times.length - 1] ? 'ascending' : 'descending';
+};
+
+/**
+ * Resolve the display pattern for message times. Custom patterns that
+ * date-fns rejects fall back to the 12-hour format.
+ */
+export const resolveTimeFormat = (mode: string | undefined, customPattern: string | undefined): string => {
+  if (mode === 'Custom' && customPattern?.trim()) {
+    try {
+      format(new Date(), customPattern);
+      return customPattern;
+    } catch {
+      console.warn(`Ignoring invalid time format: ${customPattern}`);
+    }
+  }
+  return TIME_FORMATS[mode as keyof typeof TIME_FORMATS] ?? TIME_FORMATS['12-hour'];
+};
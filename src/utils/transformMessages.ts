@@ -0,0 +1,188 @@
+// src/utils/transformMessages.ts
+
+import { WorkbookElementData } from '@sigmacomputing/plugin';
+import { ChatMessage } from '../types/chat.types';
+import { SenderClassifier } from './senderClassifier';
+import { parseTimestamp } from './timestamps';
+import { buildMessageMetadata } from './metadata';
+import { parseFeedbackRating } from './feedback';
+import { VisibilityCheck } from './visibility';
+import { parseSuggestions } from './suggestions';
+import { isGenerationInProgress } from './completion';
+
+// Column ids (from the editor panel) for each field of a chat message
+export interface ChatColumnMapping {
+  message: string;
+  author: string;
+  timestamp?: string;
+  id?: string;
+  email?: string;
+  session?: string;
+  role?: string;
+  model?: string;
+  latency?: string;
+  inputTokens?: string;
+  outputTokens?: string;
+  sources?: string;
+  feedback?: string;
+  visibility?: string;
+  suggestions?: string;
+  completed?: string;
+}
+
+export type MessageSortOrder = 'Timestamp, then ID' | 'ID' | 'Table order';
+
+export interface TransformOptions {
+  classifySender: SenderClassifier;
+  sourceTimeZone?: string;
+  sortOrder?: MessageSortOrder;
+  // Rows failing this check (on the visibility column) are left out
+  isVisible?: VisibilityCheck;
+}
+
+// FNV-1a, rendered in base 36 - short, stable and good enough for row keys
+const hashContent = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const compareIds = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const isPresent = (value: unknown) => value !== null && value !== undefined && value !== '';
+
+/**
+ * Sort messages into conversation order. Array.prototype.sort is stable, so
+ * ties keep table order. Content-hash IDs (`syntheticIds`) carry no order, so
+ * IDs only break ties when every message has a real one - comparing some IDs
+ * but not others would make the comparator inconsistent.
+ */
+export const sortMessages = (
+  messages: ChatMessage[],
+  sortOrder: MessageSortOrder,
+  syntheticIds: Set<string> = new Set()
+): ChatMessage[] => {
+  if (sortOrder === 'Table order') return messages;
+
+  const compareByIds = syntheticIds.size === 0;
+  return [...messages].sort((a, b) => {
+    if (sortOrder === 'Timestamp, then ID') {
+      const byTime = a.timestamp.getTime() - b.timestamp.getTime();
+      if (byTime !== 0) return byTime;
+    }
+    return compareByIds ? compareIds(a.id, b.id) : 0;
+  });
+};
+
+/**
+ * Turn the column arrays of the chat history element into chat messages.
+ *
+ * - Timestamps are normalized; rows without a usable value borrow the
+ *   previous (or next) row's time so they sort and group sensibly, and are
+ *   flagged as unknown.
+ * - Rows without a mapped ID get a content hash ID, so refreshes don't remount
+ *   every bubble and replay animations.
+ * - Duplicate IDs are dropped (first row wins).
+ * - With a visibility column mapped, rows the viewer may not see are dropped.
+ * - The result is sorted by timestamp then ID (table order on ties when any
+ *   row lacks a mapped ID), independent of table sort.
+ */
+export const transformChatData = (
+  chatData: WorkbookElementData,
+  columns: ChatColumnMapping,
+  { classifySender, sourceTimeZone, sortOrder = 'Timestamp, then ID', isVisible }: TransformOptions
+): ChatMessage[] => {
+  const column = (columnId?: string): unknown[] => (columnId ? chatData[columnId] ?? [] : []);
+
+  const messageArray = column(columns.message);
+  const authorArray = column(columns.author);
+  const timestampArray = column(columns.timestamp);
+  const idArray = column(columns.id);
+  const emailArray = column(columns.email);
+  const sessionArray = column(columns.session);
+  const roleArray = column(columns.role);
+  const modelArray = column(columns.model);
+  const latencyArray = column(columns.latency);
+  const inputTokensArray = column(columns.inputTokens);
+  const outputTokensArray = column(columns.outputTokens);
+  const sourcesArray = column(columns.sources);
+  const feedbackArray = column(columns.feedback);
+  const visibilityArray = column(columns.visibility);
+  const suggestionsArray = column(columns.suggestions);
+  const completedArray = column(columns.completed);
+
+  const parsedTimestamps = messageArray.map((_, index) =>
+    parseTimestamp(timestampArray[index], sourceTimeZone)
+  );
+  const fallbackTimestamps: (Date | null)[] = [];
+  parsedTimestamps.forEach((timestamp, index) => {
+    fallbackTimestamps[index] = timestamp ?? (index > 0 ? fallbackTimestamps[index - 1] : null);
+  });
+  for (let index = parsedTimestamps.length - 2; index >= 0; index--) {
+    fallbackTimestamps[index] = fallbackTimestamps[index] ?? fallbackTimestamps[index + 1];
+  }
+
+  // Identical rows without an ID get a running suffix to keep keys unique
+  const hashCounts = new Map<string, number>();
+  const seenIds = new Set<string>();
+  const syntheticIds = new Set<string>();
+  const messages: ChatMessage[] = [];
+
+  messageArray.forEach((message, index) => {
+    if (!isPresent(message)) return;
+    if (columns.visibility && isVisible && !isVisible(visibilityArray[index])) return;
+
+    const content = String(message);
+    const author = String(authorArray[index] ?? '');
+    const email = isPresent(emailArray[index]) ? String(emailArray[index]) : undefined;
+    const role = isPresent(roleArray[index]) ? String(roleArray[index]) : undefined;
+    const sessionId = isPresent(sessionArray[index]) ? String(sessionArray[index]) : undefined;
+    const sender = classifySender({ author, email, role });
+    const suggestions = sender === 'assistant' ? parseSuggestions(suggestionsArray[index]) : [];
+    const isGenerating = sender === 'assistant' && Boolean(columns.completed) &&
+      isGenerationInProgress(completedArray[index]);
+
+    let id: string;
+    if (isPresent(idArray[index])) {
+      id = String(idArray[index]);
+    } else {
+      const hash = hashContent([author, content, String(timestampArray[index] ?? ''), sessionId ?? ''].join('␟'));
+      const count = hashCounts.get(hash) ?? 0;
+      hashCounts.set(hash, count + 1);
+      id = count === 0 ? `msg-${hash}` : `msg-${hash}-${count}`;
+      syntheticIds.add(id);
+    }
+
+    if (seenIds.has(id)) return;
+    seenIds.add(id);
+
+    messages.push({
+      id,
+      content,
+      // Assistant, the current viewer, or another human in a shared thread
+      sender,
+      timestamp: parsedTimestamps[index] ?? fallbackTimestamps[index] ?? new Date(0),
+      timestampUnknown: parsedTimestamps[index] === null,
+      email,
+      authorName: author || email,
+      authorId: (email || author).toLowerCase() || undefined,
+      sessionId,
+      metadata: buildMessageMetadata({
+        model: modelArray[index],
+        latency: latencyArray[index],
+        inputTokens: inputTokensArray[index],
+        outputTokens: outputTokensArray[index],
+        sources: sourcesArray[index],
+      }),
+      feedback: parseFeedbackRating(feedbackArray[index]),
+      suggestions: suggestions.length > 0 ? suggestions : undefined,
+      isGenerating: isGenerating || undefined,
+    });
+  });
+
+  return sortMessages(messages, sortOrder, syntheticIds);
+};
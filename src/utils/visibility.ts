@@ -0,0 +1,47 @@
+// src/utils/visibility.ts
+
+// Audience entries that make a row visible to every viewer
+const EVERYONE_VALUES = new Set(['*', 'all', 'everyone']);
+const TRUE_VALUES = new Set(['true', 't', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'f', 'no', 'n', '0']);
+
+export type VisibilityCheck = (value: unknown) => boolean;
+
+/**
+ * Decide per row whether the viewer may see it, from the visibility column:
+ * - a boolean (or true/false text), e.g. a row-level security formula
+ *   comparing the row's owner to CurrentUserEmail()
+ * - a list of email addresses separated by commas, semicolons or spaces,
+ *   where "*" or "everyone" means every viewer
+ *
+ * Blank values hide the row, and so does an email list while the viewer is
+ * unknown. This only hides rows in the plugin - the data still reaches the
+ * browser, so truly private rows need row-level security on the element.
+ */
+export const createVisibilityCheck = (viewerEmail: string): VisibilityCheck => {
+  const viewer = viewerEmail.trim().toLowerCase();
+
+  return value => {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    if (value === null || value === undefined) return false;
+
+    const text = String(value).trim().toLowerCase();
+    if (!text || FALSE_VALUES.has(text)) return false;
+    if (TRUE_VALUES.has(text)) return true;
+
+    return text
+      .split(/[\s,;]+/)
+      .some(entry => EVERYONE_VALUES.has(entry) || (viewer !== '' && entry === viewer));
+  };
+};
+
+/** Rows with a message that the visibility check hides. */
+export const countHiddenMessages = (
+  messageValues: unknown[],
+  visibilityValues: unknown[],
+  isVisible: VisibilityCheck
+): number =>
+  messageValues.filter((message, index) =>
+    message !== null && message !== undefined && message !== '' && !isVisible(visibilityValues[index])
+  ).length;